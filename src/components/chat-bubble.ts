@@ -13,6 +13,7 @@ export class ChatBubble extends HTMLElement {
 
   connectedCallback(): void {
     this.render();
+    this._updateLabel();
     this._setupEventListeners();
   }
 
@@ -25,6 +26,7 @@ export class ChatBubble extends HTMLElement {
     if (bubble) {
       bubble.classList.toggle('pulse', value);
     }
+    this._updateLabel();
   }
 
   get hasUnread(): boolean {
@@ -49,12 +51,29 @@ export class ChatBubble extends HTMLElement {
       chatIcon.style.display = value ? 'none' : 'block';
       closeIcon.style.display = value ? 'block' : 'none';
     }
+    this._updateLabel();
   }
 
   get isOpen(): boolean {
     return this._isOpen;
   }
 
+  /**
+   * Focus the bubble button (e.g. when the chat window closes).
+   */
+  focus(): void {
+    (this.shadowRoot?.querySelector('.bubble') as HTMLElement | null)?.focus();
+  }
+
+  private _updateLabel(): void {
+    const bubble = this.shadowRoot?.querySelector('.bubble');
+    if (!bubble) return;
+    let label = this._isOpen ? 'Close chat' : 'Open chat';
+    if (!this._isOpen && this._hasUnread) label += ' (new messages)';
+    bubble.setAttribute('aria-label', label);
+    bubble.setAttribute('aria-expanded', String(this._isOpen));
+  }
+
   private _setupEventListeners(): void {
     const bubble = this.shadowRoot?.querySelector('.bubble');
     bubble?.addEventListener('click', () => {
@@ -71,7 +90,7 @@ export class ChatBubble extends HTMLElement {
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          --bubble-color: #6366f1;
+          --bubble-color: #4f46e5;
           display: block;
         }
 
@@ -131,14 +150,31 @@ export class ChatBubble extends HTMLElement {
         .close-icon {
           display: none;
         }
+
+        @media (prefers-reduced-motion: reduce) {
+          .bubble {
+            transition: none;
+          }
+
+          .bubble:hover,
+          .bubble:active {
+            transform: none;
+          }
+
+          .bubble.pulse::after {
+            animation: none;
+            opacity: 0.3;
+            transform: scale(1.2);
+          }
+        }
       </style>
 
-      <button class="bubble" aria-label="Open chat">
-        <svg class="icon chat-icon" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+      <button class="bubble" aria-label="Open chat" aria-haspopup="dialog" aria-expanded="false">
+        <svg class="icon chat-icon" aria-hidden="true" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
           <path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm0 14H5.17L4 17.17V4h16v12z"/>
           <path d="M7 9h10v2H7zm0-3h10v2H7z"/>
         </svg>
-        <svg class="icon close-icon" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+        <svg class="icon close-icon" aria-hidden="true" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
           <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
         </svg>
       </button>
@@ -1,24 +1,47 @@
-import type { ThemeConfig } from '../types';
+import { AttachmentPolicy } from '../utils/attachment-policy';
+import type { ThemeConfig, Attachment, SpeechRecognizer } from '../types';
 
 /**
  * Chat input component.
- * Text input area with send button.
+ * Text input area with send button (replaced by a stop button while streaming).
+ * With an attachment policy, files can be attached via a button,
+ * drag and drop or paste and are shown in a tray above the input.
+ * With a speech recognizer, a microphone button dictates into the input.
  */
 export class ChatInput extends HTMLElement {
+  /** How long an attachment or dictation error stays visible (ms). */
+  static readonly ERROR_DURATION = 5000;
+
   private _disabled = false;
+  private _streaming = false;
+  private _attachmentPolicy: AttachmentPolicy | null = null;
+  private _attachments: Attachment[] = [];
+  private _errorTimer: ReturnType<typeof setTimeout> | null = null;
+  private _speechRecognizer: SpeechRecognizer | null = null;
+  private _listening = false;
+  /** Input text before dictation started; the transcript is added to it. */
+  private _dictationBase = '';
 
   constructor() {
     super();
     this.attachShadow({ mode: 'open' });
+    this._setupDropTarget();
   }
 
   static get observedAttributes(): string[] {
-    return ['disabled', 'placeholder'];
+    return ['disabled', 'placeholder', 'streaming'];
   }
 
   connectedCallback(): void {
     this.render();
     this._setupEventListeners();
+    this._updateAttachButton();
+    this._updateAttachments();
+    this._updateMicButton();
+  }
+
+  disconnectedCallback(): void {
+    this._stopDictation();
   }
 
   attributeChangedCallback(name: string, _oldValue: string | null, newValue: string | null): void {
@@ -26,7 +49,11 @@ export class ChatInput extends HTMLElement {
 
     if (name === 'disabled') {
       this._disabled = newValue !== null;
+      if (this._disabled) this._stopDictation();
       this._updateDisabledState();
+    } else if (name === 'streaming') {
+      this._streaming = newValue !== null;
+      this._updateStreamingState();
     } else if (name === 'placeholder') {
       const textarea = this.shadowRoot?.querySelector('textarea');
       if (textarea) {
@@ -41,6 +68,7 @@ export class ChatInput extends HTMLElement {
   set disabled(value: boolean) {
     this._disabled = value;
     if (value) {
+      this._stopDictation();
       this.setAttribute('disabled', '');
     } else {
       this.removeAttribute('disabled');
@@ -52,6 +80,66 @@ export class ChatInput extends HTMLElement {
     return this._disabled;
   }
 
+  /**
+   * Set whether a response is streaming (shows the stop button instead of send).
+   */
+  set streaming(value: boolean) {
+    this._streaming = value;
+    if (value) {
+      this.setAttribute('streaming', '');
+    } else {
+      this.removeAttribute('streaming');
+    }
+    this._updateStreamingState();
+  }
+
+  get streaming(): boolean {
+    return this._streaming;
+  }
+
+  /**
+   * Set the rules for attachments. Null turns attachments off
+   * (and drops files that are attached already).
+   */
+  set attachmentPolicy(value: AttachmentPolicy | null) {
+    this._attachmentPolicy = value;
+    if (!value) this._attachments = [];
+    this._updateAttachButton();
+    this._updateAttachments();
+  }
+
+  get attachmentPolicy(): AttachmentPolicy | null {
+    return this._attachmentPolicy;
+  }
+
+  /**
+   * Set the speech-to-text engine for dictation. Null hides the microphone.
+   */
+  set speechRecognizer(value: SpeechRecognizer | null) {
+    if (value === this._speechRecognizer) return;
+    this._stopDictation();
+    this._speechRecognizer = value;
+    this._updateMicButton();
+  }
+
+  get speechRecognizer(): SpeechRecognizer | null {
+    return this._speechRecognizer;
+  }
+
+  /**
+   * Whether dictation is running.
+   */
+  get listening(): boolean {
+    return this._listening;
+  }
+
+  /**
+   * Files attached to the message being written.
+   */
+  get attachments(): Attachment[] {
+    return this._attachments.slice();
+  }
+
   /**
    * Focus the input field.
    */
@@ -71,6 +159,36 @@ export class ChatInput extends HTMLElement {
       textarea.value = '';
       this._adjustHeight(textarea);
     }
+    this._attachments = [];
+    this._updateAttachments();
+  }
+
+  /**
+   * Attach files, skipping (and reporting) those the policy rejects.
+   */
+  async addFiles(files: FileList | File[]): Promise<void> {
+    const policy = this._attachmentPolicy;
+    if (!policy || this._disabled) return;
+
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      const problem = policy.check(file, this._attachments.length);
+      if (problem) {
+        problems.push(problem);
+        continue;
+      }
+      try {
+        const attachment = await AttachmentPolicy.read(file);
+        if (this._attachmentPolicy !== policy) return;
+        this._attachments.push(attachment);
+        this._updateAttachments();
+      } catch (error) {
+        console.warn('[OmnifactWidget] Failed to read attachment:', error);
+        problems.push(`${file.name} could not be read.`);
+      }
+    }
+
+    if (problems.length > 0) this._showError(problems.join(' '));
   }
 
   /**
@@ -84,14 +202,144 @@ export class ChatInput extends HTMLElement {
 
   private _updateDisabledState(): void {
     const textarea = this.shadowRoot?.querySelector('textarea') as HTMLTextAreaElement | null;
-    const button = this.shadowRoot?.querySelector('button') as HTMLButtonElement | null;
+    const button = this.shadowRoot?.querySelector('.send-btn') as HTMLButtonElement | null;
+    const attachButton = this.shadowRoot?.querySelector('.attach-btn') as HTMLButtonElement | null;
+    const micButton = this.shadowRoot?.querySelector('.mic-btn') as HTMLButtonElement | null;
     if (textarea) textarea.disabled = this._disabled;
     if (button) button.disabled = this._disabled;
+    if (attachButton) attachButton.disabled = this._disabled;
+    if (micButton) micButton.disabled = this._disabled;
+  }
+
+  private _updateMicButton(): void {
+    const micButton = this.shadowRoot?.querySelector('.mic-btn') as HTMLElement | null;
+    if (!micButton) return;
+
+    const label = this._listening ? 'Stop voice input' : 'Start voice input';
+    micButton.hidden = !this._speechRecognizer;
+    micButton.classList.toggle('listening', this._listening);
+    micButton.setAttribute('aria-pressed', String(this._listening));
+    micButton.setAttribute('aria-label', label);
+    micButton.title = label;
+  }
+
+  /**
+   * Start dictating into the input, or stop if already listening.
+   */
+  private async _toggleDictation(): Promise<void> {
+    if (this._listening) {
+      this._stopDictation();
+      return;
+    }
+
+    const recognizer = this._speechRecognizer;
+    const textarea = this.shadowRoot?.querySelector('textarea');
+    if (!recognizer || !textarea || this._disabled) return;
+
+    this._dictationBase = textarea.value.trim();
+    this._listening = true;
+    this._updateMicButton();
+    this.dispatchEvent(new CustomEvent('dictation-start', {
+      bubbles: true,
+      composed: true
+    }));
+
+    const isCurrent = () => this._listening && this._speechRecognizer === recognizer;
+    const end = () => {
+      if (!isCurrent()) return;
+      this._listening = false;
+      this._updateMicButton();
+    };
+
+    try {
+      await recognizer.start({
+        onResult: (transcript: string) => {
+          if (!isCurrent()) return;
+          textarea.value = [this._dictationBase, transcript].filter(Boolean).join(' ');
+          this._adjustHeight(textarea);
+        },
+        onEnd: end,
+        onError: (error: Error) => {
+          if (!isCurrent()) return;
+          this._showError(error.message);
+          end();
+        }
+      });
+    } catch (error) {
+      console.warn('[OmnifactWidget] Failed to start voice input:', error);
+      this._showError('Voice input is not available.');
+      end();
+    }
+  }
+
+  private _stopDictation(): void {
+    if (!this._listening) return;
+    this._listening = false;
+    this._speechRecognizer?.stop();
+    this._updateMicButton();
+  }
+
+  private _updateAttachButton(): void {
+    const attachButton = this.shadowRoot?.querySelector('.attach-btn') as HTMLElement | null;
+    const fileInput = this.shadowRoot?.querySelector('.file-input') as HTMLInputElement | null;
+    if (attachButton) attachButton.hidden = !this._attachmentPolicy;
+    if (fileInput) {
+      fileInput.accept = this._attachmentPolicy ? this._attachmentPolicy.accept : '';
+      fileInput.multiple = !this._attachmentPolicy || this._attachmentPolicy.maxCount > 1;
+    }
+  }
+
+  /**
+   * Render the tray of attached files.
+   */
+  private _updateAttachments(): void {
+    const tray = this.shadowRoot?.querySelector('.attachments') as HTMLElement | null;
+    if (!tray) return;
+
+    tray.hidden = this._attachments.length === 0;
+    tray.innerHTML = this._attachments.map(attachment => {
+      const name = this._escapeHtml(attachment.name);
+      const preview = AttachmentPolicy.isSafeThumbnail(attachment.thumbnail)
+        ? `<img class="attachment-thumb" src="${attachment.thumbnail}" alt="">`
+        : '<span class="attachment-icon" aria-hidden="true">&#128196;</span>';
+      return `<div class="attachment" title="${name} (${AttachmentPolicy.formatSize(attachment.size)})">
+        ${preview}
+        <span class="attachment-name">${name}</span>
+        <button type="button" class="remove-btn" data-id="${this._escapeHtml(attachment.id)}"
+          aria-label="Remove ${name}" title="Remove">&times;</button>
+      </div>`;
+    }).join('');
+  }
+
+  private _showError(message: string): void {
+    const errorEl = this.shadowRoot?.querySelector('.input-error') as HTMLElement | null;
+    if (!errorEl) return;
+
+    errorEl.textContent = message;
+    errorEl.hidden = false;
+    if (this._errorTimer !== null) clearTimeout(this._errorTimer);
+    this._errorTimer = setTimeout(() => {
+      this._errorTimer = null;
+      errorEl.hidden = true;
+      errorEl.textContent = '';
+    }, ChatInput.ERROR_DURATION);
+  }
+
+  private _updateStreamingState(): void {
+    const sendBtn = this.shadowRoot?.querySelector('.send-btn') as HTMLElement | null;
+    const stopBtn = this.shadowRoot?.querySelector('.stop-btn') as HTMLElement | null;
+    if (sendBtn) sendBtn.hidden = this._streaming;
+    if (stopBtn) stopBtn.hidden = !this._streaming;
   }
 
   private _setupEventListeners(): void {
     const textarea = this.shadowRoot?.querySelector('textarea');
-    const button = this.shadowRoot?.querySelector('button');
+    const button = this.shadowRoot?.querySelector('.send-btn');
+    const stopButton = this.shadowRoot?.querySelector('.stop-btn');
+    const attachButton = this.shadowRoot?.querySelector('.attach-btn');
+    const micButton = this.shadowRoot?.querySelector('.mic-btn');
+    const fileInput = this.shadowRoot?.querySelector('.file-input') as HTMLInputElement | null;
+    const tray = this.shadowRoot?.querySelector('.attachments');
 
     // Auto-resize textarea
     textarea?.addEventListener('input', () => {
@@ -110,6 +358,76 @@ export class ChatInput extends HTMLElement {
     button?.addEventListener('click', () => {
       this._send();
     });
+
+    // Stop button click
+    stopButton?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('stop', {
+        bubbles: true,
+        composed: true
+      }));
+    });
+
+    // Dictate
+    micButton?.addEventListener('click', () => {
+      this._toggleDictation();
+    });
+
+    // Attach files
+    attachButton?.addEventListener('click', () => {
+      fileInput?.click();
+    });
+
+    fileInput?.addEventListener('change', () => {
+      if (fileInput.files) this.addFiles(fileInput.files);
+      // Allow picking the same file again after removing it
+      fileInput.value = '';
+    });
+
+    tray?.addEventListener('click', (e: Event) => {
+      const button = (e.target as Element).closest('.remove-btn') as HTMLElement | null;
+      if (!button) return;
+      this._attachments = this._attachments.filter(a => a.id !== button.dataset.id);
+      this._updateAttachments();
+      this.focus();
+    });
+
+    // Paste images or files from the clipboard
+    textarea?.addEventListener('paste', (e: ClipboardEvent) => {
+      const files = e.clipboardData?.files;
+      if (!this._attachmentPolicy || !files || files.length === 0) return;
+      e.preventDefault();
+      this.addFiles(files);
+    });
+  }
+
+  /**
+   * Accept files dropped anywhere on the input. Registered once, as the
+   * host element (unlike the shadow DOM) survives re-renders.
+   */
+  private _setupDropTarget(): void {
+    this.addEventListener('dragover', (e: DragEvent) => {
+      if (!this._acceptsDrop(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+      this.classList.add('dragging');
+    });
+
+    this.addEventListener('dragleave', (e: DragEvent) => {
+      if (e.relatedTarget && this.contains(e.relatedTarget as Node)) return;
+      this.classList.remove('dragging');
+    });
+
+    this.addEventListener('drop', (e: DragEvent) => {
+      this.classList.remove('dragging');
+      if (!this._acceptsDrop(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) this.addFiles(e.dataTransfer.files);
+    });
+  }
+
+  private _acceptsDrop(e: DragEvent): boolean {
+    if (!this._attachmentPolicy || this._disabled || !e.dataTransfer) return false;
+    return Array.from(e.dataTransfer.types).indexOf('Files') !== -1;
   }
 
   private _adjustHeight(textarea: HTMLTextAreaElement): void {
@@ -122,20 +440,25 @@ export class ChatInput extends HTMLElement {
     if (this._disabled) return;
 
     const textarea = this.shadowRoot?.querySelector('textarea');
-    const message = textarea?.value.trim();
+    const message = textarea?.value.trim() || '';
+    const attachments = this._attachments;
 
-    if (!message) return;
+    if (!message && attachments.length === 0) return;
+
+    this._stopDictation();
 
     this.dispatchEvent(new CustomEvent('send', {
       bubbles: true,
       composed: true,
-      detail: { message }
+      detail: { message, attachments }
     }));
 
-    if (textarea) {
-      textarea.value = '';
-      this._adjustHeight(textarea);
-    }
+    this.clear();
+  }
+
+  private _escapeHtml(text: string): string {
+    const map: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+    return String(text).replace(/[&<>"']/g, m => map[m]);
   }
 
   private render(): void {
@@ -146,7 +469,7 @@ export class ChatInput extends HTMLElement {
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          --primary-color: #6366f1;
+          --primary-color: #4f46e5;
           --background-color: #ffffff;
           --text-color: #1f2937;
           --border-color: #e5e7eb;
@@ -190,7 +513,7 @@ export class ChatInput extends HTMLElement {
         }
 
         textarea::placeholder {
-          color: #9ca3af;
+          color: #6b7280;
         }
 
         button {
@@ -225,23 +548,203 @@ export class ChatInput extends HTMLElement {
           height: 20px;
           fill: white;
         }
+
+        button[hidden] {
+          display: none;
+        }
+
+        .stop-btn svg {
+          width: 16px;
+          height: 16px;
+        }
+
+        .attach-btn,
+        .mic-btn {
+          background: transparent;
+        }
+
+        .attach-btn svg,
+        .mic-btn svg {
+          fill: #6b7280;
+        }
+
+        .attach-btn:hover:not(:disabled) svg,
+        .mic-btn:hover:not(:disabled) svg {
+          fill: var(--primary-color);
+        }
+
+        .attach-btn:disabled,
+        .mic-btn:disabled {
+          background: transparent;
+        }
+
+        .attach-btn:disabled svg,
+        .mic-btn:disabled svg {
+          fill: #d1d5db;
+        }
+
+        .mic-btn.listening {
+          background: #fee2e2;
+          animation: listening 1.5s ease-in-out infinite;
+        }
+
+        .mic-btn.listening svg,
+        .mic-btn.listening:hover:not(:disabled) svg {
+          fill: #dc2626;
+        }
+
+        @keyframes listening {
+          0%, 100% { box-shadow: 0 0 0 0 rgba(220, 38, 38, 0.4); }
+          50% { box-shadow: 0 0 0 6px rgba(220, 38, 38, 0); }
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+          textarea,
+          button {
+            transition: none;
+          }
+
+          button:hover:not(:disabled),
+          button:active:not(:disabled) {
+            transform: none;
+          }
+
+          .mic-btn.listening {
+            animation: none;
+            box-shadow: 0 0 0 2px rgba(220, 38, 38, 0.4);
+          }
+        }
+
+        :host(.dragging) {
+          background: #eef2ff;
+          outline: 2px dashed var(--primary-color);
+          outline-offset: -6px;
+        }
+
+        .file-input {
+          display: none;
+        }
+
+        .attachments {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-bottom: 8px;
+        }
+
+        .attachments[hidden],
+        .input-error[hidden] {
+          display: none;
+        }
+
+        .attachment {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          max-width: 180px;
+          padding: 4px 4px 4px 6px;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          font-size: 12px;
+          color: var(--text-color);
+        }
+
+        .attachment-thumb {
+          width: 28px;
+          height: 28px;
+          object-fit: cover;
+          border-radius: 4px;
+          flex-shrink: 0;
+        }
+
+        .attachment-icon {
+          font-size: 18px;
+          flex-shrink: 0;
+        }
+
+        .attachment-name {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .attachment .remove-btn {
+          width: 20px;
+          height: 20px;
+          background: transparent;
+          color: #6b7280;
+          font-size: 16px;
+          line-height: 1;
+        }
+
+        .attachment .remove-btn:hover {
+          color: #dc2626;
+        }
+
+        .input-error {
+          margin-bottom: 8px;
+          font-size: 12px;
+          color: #dc2626;
+        }
       </style>
 
+      <div class="attachments" hidden></div>
+      <div class="input-error" role="alert" hidden></div>
       <div class="input-container">
+        <input type="file" class="file-input" tabindex="-1" aria-hidden="true" multiple>
+        <button
+          type="button"
+          class="attach-btn"
+          aria-label="Attach files"
+          title="Attach files"
+          hidden
+          ${this._disabled ? 'disabled' : ''}
+        >
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M16.5 6v11.5a4 4 0 0 1-8 0V5a2.5 2.5 0 0 1 5 0v10.5a1 1 0 0 1-2 0V6H10v9.5a2.5 2.5 0 0 0 5 0V5a4 4 0 0 0-8 0v12.5a5.5 5.5 0 0 0 11 0V6h-1.5z"/>
+          </svg>
+        </button>
         <textarea
           placeholder="${placeholder}"
+          aria-label="Message"
           rows="1"
           ${this._disabled ? 'disabled' : ''}
         ></textarea>
         <button
           type="button"
+          class="mic-btn"
+          aria-label="Start voice input"
+          aria-pressed="false"
+          title="Start voice input"
+          hidden
+          ${this._disabled ? 'disabled' : ''}
+        >
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M12 14a3 3 0 0 0 3-3V5a3 3 0 0 0-6 0v6a3 3 0 0 0 3 3zm5-3a5 5 0 0 1-10 0H5a7 7 0 0 0 6 6.92V21h2v-3.08A7 7 0 0 0 19 11h-2z"/>
+          </svg>
+        </button>
+        <button
+          type="button"
+          class="send-btn"
           aria-label="Send message"
           ${this._disabled ? 'disabled' : ''}
+          ${this._streaming ? 'hidden' : ''}
         >
           <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
             <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z"/>
           </svg>
         </button>
+        <button
+          type="button"
+          class="stop-btn"
+          aria-label="Stop response"
+          title="Stop response"
+          ${this._streaming ? '' : 'hidden'}
+        >
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M6 6h12v12H6z"/>
+          </svg>
+        </button>
       </div>
     `;
   }
@@ -1,10 +1,22 @@
-import type { ThemeConfig } from '../types';
+import { FocusTrap } from '../utils/focus-trap';
+import type { ThemeConfig, ConversationSummary, HandoffStatus } from '../types';
 
 /**
  * Chat window component.
- * Container for the chat interface including header, messages, and input.
+ * Container for the chat interface including header, messages, and input,
+ * plus a panel listing stored conversations and an export menu.
+ * Works as a dialog: keeps keyboard focus inside and closes on Escape.
  */
 export class ChatWindow extends HTMLElement {
+  private _conversations: ConversationSummary[] = [];
+  private _activeConversationId: string | null = null;
+  private _conversationsOpen = false;
+  private _exportMenuOpen = false;
+  private _handoffAvailable = false;
+  private _handoffStatus: HandoffStatus | null = null;
+  private _handoffAgentName = '';
+  private _announceTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor() {
     super();
     this.attachShadow({ mode: 'open' });
@@ -15,19 +27,124 @@ export class ChatWindow extends HTMLElement {
   }
 
   connectedCallback(): void {
+    this.setAttribute('role', 'dialog');
+    this.setAttribute('aria-modal', 'true');
+    this.setAttribute('aria-label', this.getAttribute('title') || 'Chat');
     this.render();
     this._setupEventListeners();
   }
 
+  disconnectedCallback(): void {
+    if (this._announceTimer !== null) {
+      clearTimeout(this._announceTimer);
+      this._announceTimer = null;
+    }
+  }
+
   attributeChangedCallback(name: string, _oldValue: string | null, newValue: string | null): void {
     if (name === 'title' && this.isConnected) {
       const titleEl = this.shadowRoot?.querySelector('.header-title');
       if (titleEl) {
         titleEl.textContent = newValue || 'Chat';
       }
+      this.setAttribute('aria-label', newValue || 'Chat');
     }
   }
 
+  /**
+   * Have screen readers read a message (e.g. a completed answer) without
+   * moving focus. Replaces a message that hasn't been read yet.
+   */
+  announce(message: string): void {
+    const region = this.shadowRoot?.querySelector('.announcer');
+    if (!region) return;
+
+    if (this._announceTimer !== null) clearTimeout(this._announceTimer);
+    // Clear first, so the same text is announced again
+    region.textContent = '';
+    this._announceTimer = setTimeout(() => {
+      this._announceTimer = null;
+      region.textContent = message;
+    }, 100);
+  }
+
+  /**
+   * Set the stored conversations shown in the conversation list.
+   */
+  set conversations(value: ConversationSummary[]) {
+    this._conversations = value;
+    this._renderConversations();
+  }
+
+  get conversations(): ConversationSummary[] {
+    return this._conversations;
+  }
+
+  /**
+   * Set the conversation that is currently shown.
+   */
+  set activeConversationId(value: string | null) {
+    this._activeConversationId = value;
+    this._renderConversations();
+  }
+
+  get activeConversationId(): string | null {
+    return this._activeConversationId;
+  }
+
+  /**
+   * Show or hide the conversation list.
+   */
+  toggleConversations(open = !this._conversationsOpen): void {
+    this._conversationsOpen = open;
+    const panel = this.shadowRoot?.querySelector('.conversations-panel');
+    const btn = this.shadowRoot?.querySelector('.conversations-btn');
+    if (open) {
+      panel?.removeAttribute('hidden');
+      this._renderConversations();
+    } else {
+      panel?.setAttribute('hidden', '');
+    }
+    btn?.setAttribute('aria-expanded', String(open));
+  }
+
+  /**
+   * Set whether the "Talk to a human" action is offered.
+   */
+  set handoffAvailable(value: boolean) {
+    this._handoffAvailable = value;
+    this._updateHandoff();
+  }
+
+  get handoffAvailable(): boolean {
+    return this._handoffAvailable;
+  }
+
+  /**
+   * Show the state of a handoff to a human agent (null when there is none).
+   */
+  setHandoffStatus(status: HandoffStatus | null, agentName?: string): void {
+    this._handoffStatus = status === 'ended' ? null : status;
+    this._handoffAgentName = agentName || '';
+    this._updateHandoff();
+  }
+
+  /**
+   * Show or hide the export menu.
+   */
+  toggleExportMenu(open = !this._exportMenuOpen): void {
+    this._exportMenuOpen = open;
+    const menu = this.shadowRoot?.querySelector('.export-menu');
+    const btn = this.shadowRoot?.querySelector('.export-btn');
+    if (open) {
+      menu?.removeAttribute('hidden');
+      (menu?.querySelector('.export-option') as HTMLElement | null)?.focus();
+    } else {
+      menu?.setAttribute('hidden', '');
+    }
+    btn?.setAttribute('aria-expanded', String(open));
+  }
+
   /**
    * Set theme colors.
    */
@@ -46,13 +163,226 @@ export class ChatWindow extends HTMLElement {
       }));
     });
 
-    const clearBtn = this.shadowRoot?.querySelector('.clear-btn');
-    clearBtn?.addEventListener('click', () => {
-      this.dispatchEvent(new CustomEvent('clear', {
+    this.shadowRoot?.querySelectorAll('.new-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        this.toggleConversations(false);
+        this.dispatchEvent(new CustomEvent('new-conversation', {
+          bubbles: true,
+          composed: true
+        }));
+      });
+    });
+
+    const conversationsBtn = this.shadowRoot?.querySelector('.conversations-btn');
+    conversationsBtn?.addEventListener('click', () => {
+      this.toggleConversations();
+    });
+
+    this.shadowRoot?.querySelector('.handoff-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('handoff-request', {
+        bubbles: true,
+        composed: true
+      }));
+    });
+
+    this.shadowRoot?.querySelector('.handoff-end')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('handoff-end', {
         bubbles: true,
         composed: true
       }));
     });
+
+    const exportBtn = this.shadowRoot?.querySelector('.export-btn');
+    exportBtn?.addEventListener('click', () => {
+      this.toggleExportMenu();
+    });
+
+    const exportMenu = this.shadowRoot?.querySelector('.export-menu');
+    exportMenu?.addEventListener('click', (e: Event) => {
+      const format = (e.target as Element).closest('.export-option')?.getAttribute('data-format');
+      if (!format) return;
+      this.toggleExportMenu(false);
+      this._dispatchConversationEvent('export', { format });
+    });
+
+    // Close the export menu on clicks elsewhere in the window
+    this.shadowRoot?.addEventListener('click', (e: Event) => {
+      if (this._exportMenuOpen && !(e.target as Element).closest('.export-menu, .export-btn')) {
+        this.toggleExportMenu(false);
+      }
+    });
+
+    const list = this.shadowRoot?.querySelector('.conversation-list');
+    list?.addEventListener('click', (e: Event) => {
+      const target = e.target as Element;
+      const item = target.closest('.conversation-item');
+      const id = item?.getAttribute('data-id');
+      if (!item || !id) return;
+
+      if (target.closest('.conversation-open')) {
+        this.toggleConversations(false);
+        this._dispatchConversationEvent('switch-conversation', { id });
+      } else if (target.closest('.conversation-rename')) {
+        this._startRename(item, id);
+      } else if (target.closest('.conversation-delete')) {
+        const btn = target.closest('.conversation-delete') as HTMLElement;
+        if (btn.classList.contains('confirm')) {
+          this._dispatchConversationEvent('delete-conversation', { id });
+        } else {
+          // Ask for a second click before deleting
+          btn.classList.add('confirm');
+          btn.setAttribute('title', 'Click again to delete');
+          btn.setAttribute('aria-label', 'Confirm delete');
+        }
+      }
+    });
+
+    // Also receives keys from the slotted messages and input
+    this.shadowRoot?.addEventListener('keydown', (e: Event) => {
+      const key = (e as KeyboardEvent).key;
+      if (key === 'Tab' && this.shadowRoot) {
+        FocusTrap.handleTab(e as KeyboardEvent, this.shadowRoot);
+        return;
+      }
+      if (key !== 'Escape') return;
+      if (this._exportMenuOpen) {
+        this.toggleExportMenu(false);
+        (exportBtn as HTMLElement | null)?.focus();
+      } else if (this._conversationsOpen && !(e.target as Element).closest('.rename-input')) {
+        this.toggleConversations(false);
+      } else if (!e.defaultPrevented) {
+        // Escape that closed a popover or cancelled an edit is prevented
+        this.dispatchEvent(new CustomEvent('close', {
+          bubbles: true,
+          composed: true
+        }));
+      }
+    });
+  }
+
+  /**
+   * Update the handoff action and status banner.
+   */
+  private _updateHandoff(): void {
+    const btn = this.shadowRoot?.querySelector('.handoff-btn');
+    const banner = this.shadowRoot?.querySelector('.handoff-banner');
+    const text = this.shadowRoot?.querySelector('.handoff-text');
+    if (!btn || !banner || !text) return;
+
+    if (this._handoffAvailable && this._handoffStatus === null) {
+      btn.removeAttribute('hidden');
+    } else {
+      btn.setAttribute('hidden', '');
+    }
+
+    if (this._handoffStatus === null) {
+      banner.setAttribute('hidden', '');
+      return;
+    }
+    banner.removeAttribute('hidden');
+    if (this._handoffStatus === 'connected') {
+      text.textContent = `You're chatting with ${this._handoffAgentName || 'a support agent'}`;
+    } else if (this._handoffStatus === 'waiting') {
+      text.textContent = 'Waiting for a support agent…';
+    } else {
+      text.textContent = 'Connecting you to a support agent…';
+    }
+  }
+
+  private _dispatchConversationEvent(type: string, detail: Record<string, string>): void {
+    this.dispatchEvent(new CustomEvent(type, {
+      bubbles: true,
+      composed: true,
+      detail
+    }));
+  }
+
+  /**
+   * Replace a conversation title with an input for renaming it.
+   */
+  private _startRename(item: Element, id: string): void {
+    const openBtn = item.querySelector('.conversation-open');
+    if (!openBtn) return;
+
+    const conversation = this._conversations.find(c => c.id === id);
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'rename-input';
+    input.value = conversation?.title || '';
+    input.setAttribute('aria-label', 'Conversation title');
+    openBtn.replaceWith(input);
+    input.focus();
+    input.select();
+
+    let done = false;
+    const finish = (save: boolean): void => {
+      if (done) return;
+      done = true;
+      if (save && input.value.trim() !== (conversation?.title || '')) {
+        this._dispatchConversationEvent('rename-conversation', { id, title: input.value });
+      } else {
+        this._renderConversations();
+      }
+    };
+
+    input.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(false);
+      }
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+
+  /**
+   * Render the conversation list.
+   */
+  private _renderConversations(): void {
+    const list = this.shadowRoot?.querySelector('.conversation-list');
+    if (!list || !this._conversationsOpen) return;
+
+    if (this._conversations.length === 0) {
+      list.innerHTML = '<li class="conversations-empty">No saved conversations yet.</li>';
+      return;
+    }
+
+    list.innerHTML = this._conversations.map(c => `
+      <li class="conversation-item ${c.id === this._activeConversationId ? 'active' : ''}" data-id="${this._escapeHtml(c.id)}">
+        <button type="button" class="conversation-open" ${c.id === this._activeConversationId ? 'aria-current="true"' : ''}>
+          <span class="conversation-title">${this._escapeHtml(c.title)}</span>
+          <span class="conversation-date">${this._formatDate(c.updatedAt)}</span>
+        </button>
+        <button type="button" class="conversation-btn conversation-rename" aria-label="Rename conversation" title="Rename">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a1 1 0 000-1.41l-2.34-2.34a1 1 0 00-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+          </svg>
+        </button>
+        <button type="button" class="conversation-btn conversation-delete" aria-label="Delete conversation" title="Delete">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+          </svg>
+        </button>
+      </li>
+    `).join('');
+  }
+
+  /**
+   * Format a timestamp as time (today) or date.
+   */
+  private _formatDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    if (date.toDateString() === new Date().toDateString()) {
+      return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  }
+
+  private _escapeHtml(text: string): string {
+    const map: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+    return String(text).replace(/[&<>"']/g, m => map[m]);
   }
 
   private render(): void {
@@ -63,7 +393,7 @@ export class ChatWindow extends HTMLElement {
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          --primary-color: #6366f1;
+          --primary-color: #4f46e5;
           --background-color: #ffffff;
           --text-color: #1f2937;
           --border-color: #e5e7eb;
@@ -85,11 +415,21 @@ export class ChatWindow extends HTMLElement {
           transition: transform 0.3s ease, opacity 0.3s ease;
         }
 
+        /* Stays rendered for the closing animation, but can't be focused */
         :host([hidden]) {
           display: flex;
           transform: scale(0.9) translateY(10px);
           opacity: 0;
           pointer-events: none;
+          visibility: hidden;
+          transition: transform 0.3s ease, opacity 0.3s ease, visibility 0s linear 0.3s;
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+          :host,
+          :host([hidden]) {
+            transition: none;
+          }
         }
 
         :host([position="bottom-left"]) {
@@ -99,6 +439,7 @@ export class ChatWindow extends HTMLElement {
         }
 
         .header {
+          position: relative;
           display: flex;
           align-items: center;
           justify-content: space-between;
@@ -142,13 +483,253 @@ export class ChatWindow extends HTMLElement {
           fill: white;
         }
 
+        .header-btn[hidden] {
+          display: none;
+        }
+
+        /* Handoff to a human agent */
+        .handoff-banner {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
+          padding: 8px 16px;
+          background: #ecfdf5;
+          color: #065f46;
+          font-size: 13px;
+          border-bottom: 1px solid #a7f3d0;
+          flex-shrink: 0;
+        }
+
+        .handoff-banner[hidden] {
+          display: none;
+        }
+
+        .handoff-end {
+          border: 1px solid currentColor;
+          border-radius: 12px;
+          background: none;
+          color: inherit;
+          padding: 2px 10px;
+          font: inherit;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .handoff-end:hover {
+          background: rgba(6, 95, 70, 0.1);
+        }
+
+        /* Export menu */
+        .export-menu {
+          position: absolute;
+          top: calc(100% - 8px);
+          right: 12px;
+          z-index: 10;
+          min-width: 160px;
+          padding: 4px;
+          background: var(--background-color);
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          box-shadow: 0 4px 16px rgba(0, 0, 0, 0.12);
+        }
+
+        .export-menu[hidden] {
+          display: none;
+        }
+
+        .export-option {
+          display: block;
+          width: 100%;
+          padding: 8px 12px;
+          border: none;
+          border-radius: 6px;
+          background: none;
+          color: var(--text-color);
+          font: inherit;
+          font-size: 14px;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .export-option:hover,
+        .export-option:focus {
+          background: rgba(0, 0, 0, 0.05);
+        }
+
+        .export-option:focus {
+          outline: 2px solid var(--primary-color);
+          outline-offset: -2px;
+        }
+
         .content {
+          position: relative;
           display: flex;
           flex-direction: column;
           flex: 1;
           overflow: hidden;
         }
 
+        /* Conversation list */
+        .conversations-panel {
+          position: absolute;
+          top: 0;
+          right: 0;
+          bottom: 0;
+          left: 0;
+          z-index: 5;
+          display: flex;
+          flex-direction: column;
+          background: var(--background-color);
+          color: var(--text-color);
+        }
+
+        .conversations-panel[hidden] {
+          display: none;
+        }
+
+        .conversations-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 12px 16px;
+          border-bottom: 1px solid var(--border-color);
+        }
+
+        .conversations-title {
+          margin: 0;
+          font-size: 14px;
+          font-weight: 600;
+        }
+
+        .conversations-new {
+          border: 1px solid var(--primary-color);
+          border-radius: 14px;
+          background: none;
+          color: var(--primary-color);
+          padding: 4px 12px;
+          font-size: 13px;
+          cursor: pointer;
+        }
+
+        .conversations-new:hover {
+          background: var(--primary-color);
+          color: white;
+        }
+
+        .conversation-list {
+          list-style: none;
+          margin: 0;
+          padding: 6px 8px;
+          overflow-y: auto;
+          flex: 1;
+        }
+
+        .conversation-item {
+          display: flex;
+          align-items: center;
+          gap: 2px;
+          border-radius: 8px;
+        }
+
+        .conversation-item:hover,
+        .conversation-item.active {
+          background: rgba(0, 0, 0, 0.05);
+        }
+
+        .conversation-open {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 2px;
+          padding: 8px 10px;
+          border: none;
+          background: none;
+          color: inherit;
+          font: inherit;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .conversation-title {
+          max-width: 100%;
+          font-size: 14px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .conversation-item.active .conversation-title {
+          font-weight: 600;
+        }
+
+        .conversation-date {
+          font-size: 12px;
+          opacity: 0.7;
+        }
+
+        .conversation-btn {
+          flex-shrink: 0;
+          background: none;
+          border: none;
+          cursor: pointer;
+          padding: 6px;
+          border-radius: 4px;
+          color: inherit;
+          opacity: 0.5;
+          display: flex;
+        }
+
+        .conversation-btn:hover {
+          opacity: 1;
+          background: rgba(0, 0, 0, 0.06);
+        }
+
+        .conversation-btn svg {
+          width: 16px;
+          height: 16px;
+          fill: currentColor;
+        }
+
+        .conversation-delete.confirm {
+          opacity: 1;
+          color: #dc2626;
+        }
+
+        .rename-input {
+          flex: 1;
+          min-width: 0;
+          margin: 4px 6px;
+          padding: 6px 8px;
+          border: 1px solid var(--primary-color);
+          border-radius: 6px;
+          font: inherit;
+          font-size: 14px;
+          color: inherit;
+          background: var(--background-color);
+        }
+
+        .conversations-empty {
+          padding: 24px 10px;
+          text-align: center;
+          font-size: 13px;
+          opacity: 0.7;
+        }
+
+        .announcer {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          margin: -1px;
+          padding: 0;
+          overflow: hidden;
+          clip: rect(0, 0, 0, 0);
+          white-space: nowrap;
+          border: 0;
+        }
+
         ::slotted(omnifact-message-list) {
           flex: 1;
           min-height: 0;
@@ -166,7 +747,22 @@ export class ChatWindow extends HTMLElement {
       <div class="header">
         <h2 class="header-title">${title}</h2>
         <div class="header-actions">
-          <button class="header-btn clear-btn" aria-label="New chat" title="New chat">
+          <button class="header-btn conversations-btn" aria-label="Conversations" title="Conversations" aria-expanded="false">
+            <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/>
+            </svg>
+          </button>
+          <button class="header-btn handoff-btn" aria-label="Talk to a human" title="Talk to a human" hidden>
+            <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path d="M12 1a9 9 0 00-9 9v7c0 1.66 1.34 3 3 3h3v-8H5v-2a7 7 0 0114 0v2h-4v8h4v1h-7v2h6c1.66 0 3-1.34 3-3V10a9 9 0 00-9-9z"/>
+            </svg>
+          </button>
+          <button class="header-btn export-btn" aria-label="Export chat" title="Export chat" aria-haspopup="menu" aria-expanded="false">
+            <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/>
+            </svg>
+          </button>
+          <button class="header-btn new-btn" aria-label="New chat" title="New chat">
             <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
               <path d="M17.65 6.35A7.958 7.958 0 0012 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08A5.99 5.99 0 0112 18c-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z"/>
             </svg>
@@ -177,11 +773,31 @@ export class ChatWindow extends HTMLElement {
             </svg>
           </button>
         </div>
+        <div class="export-menu" role="menu" aria-label="Export chat" hidden>
+          <button type="button" class="export-option" role="menuitem" data-format="markdown">Markdown (.md)</button>
+          <button type="button" class="export-option" role="menuitem" data-format="text">Text (.txt)</button>
+          <button type="button" class="export-option" role="menuitem" data-format="json">JSON (.json)</button>
+          <button type="button" class="export-option" role="menuitem" data-format="html">Print</button>
+        </div>
+      </div>
+
+      <div class="handoff-banner" role="status" hidden>
+        <span class="handoff-text"></span>
+        <button type="button" class="handoff-end">End chat</button>
       </div>
 
       <div class="content">
         <slot></slot>
+        <div class="conversations-panel" hidden>
+          <div class="conversations-header">
+            <h3 class="conversations-title">Conversations</h3>
+            <button type="button" class="conversations-new new-btn">New chat</button>
+          </div>
+          <ul class="conversation-list"></ul>
+        </div>
       </div>
+
+      <div class="announcer" role="status" aria-live="polite" aria-atomic="true"></div>
     `;
   }
 }
@@ -1,5 +1,31 @@
 import { MarkdownRenderer } from '../utils/markdown-renderer';
-import type { ThemeConfig, InlineSource, LegacyReferences, LegacyDocument } from '../types';
+import { UrlSanitizer } from '../utils/url-sanitizer';
+import { AttachmentPolicy } from '../utils/attachment-policy';
+import type { SanitizedUrl } from '../utils/url-sanitizer';
+import { SourceIndex } from '../utils/source-index';
+import type { SourceGroup } from '../utils/source-index';
+import { StreamingMarkdownRenderer } from '../utils/streaming-markdown-renderer';
+import type { HighlightFunction } from '../utils/code-highlighter';
+import type { ThemeConfig, InlineSource, LegacyReferences, AgentStep, MessageFeedback, Attachment } from '../types';
+
+/**
+ * Display names for code block language labels.
+ */
+const LANGUAGE_LABELS: Record<string, string> = {
+  javascript: 'JavaScript',
+  js: 'JavaScript',
+  typescript: 'TypeScript',
+  ts: 'TypeScript',
+  python: 'Python',
+  py: 'Python',
+  json: 'JSON',
+  bash: 'Bash',
+  sh: 'Shell',
+  shell: 'Shell',
+  sql: 'SQL',
+  html: 'HTML',
+  css: 'CSS'
+};
 
 /**
  * Individual message component.
@@ -9,8 +35,26 @@ export class MessageItem extends HTMLElement {
   private _content = '';
   private _references: LegacyReferences | null = null;
   private _sources: InlineSource[] | null = null;
+  private _sourceIndex: SourceIndex | null = null;
+  private _steps: AgentStep[] | null = null;
+  private _attachments: Attachment[] | null = null;
   private _hideSources = false;
-  private _markdownRenderer = new MarkdownRenderer();
+  private _canEdit = false;
+  private _canRegenerate = false;
+  private _variantIndex = 0;
+  private _variantCount = 0;
+  private _isEditing = false;
+  private _canRate = false;
+  private _canReadAloud = false;
+  private _speaking = false;
+  private _feedback: MessageFeedback | null = null;
+  private _feedbackDraft: MessageFeedback['rating'] | null = null;
+  private _urlSanitizer = new UrlSanitizer();
+  private _highlighter: HighlightFunction | null = null;
+  private _markdownRenderer = this._createMarkdownRenderer();
+  private _streamingRenderer: StreamingMarkdownRenderer | null = null;
+  private _documentUrlTemplate = '';
+  private _highlightTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     super();
@@ -18,7 +62,7 @@ export class MessageItem extends HTMLElement {
   }
 
   static get observedAttributes(): string[] {
-    return ['role', 'streaming', 'data-content'];
+    return ['sender', 'streaming', 'interrupted', 'data-content'];
   }
 
   connectedCallback(): void {
@@ -31,6 +75,10 @@ export class MessageItem extends HTMLElement {
     this.render();
   }
 
+  disconnectedCallback(): void {
+    this._hideCitationPopover();
+  }
+
   attributeChangedCallback(name: string, _oldValue: string | null, newValue: string | null): void {
     if (this.isConnected) {
       if (name === 'streaming') {
@@ -43,6 +91,14 @@ export class MessageItem extends HTMLElement {
             messageEl.classList.remove('streaming');
           }
         }
+        this._updateBusy();
+        // Replace the incrementally rendered blocks with a full render
+        if (newValue === null && this._streamingRenderer) {
+          this._streamingRenderer = null;
+          this._updateContent();
+        }
+      } else if (name === 'interrupted') {
+        this._updateInterrupted();
       } else {
         this.render();
       }
@@ -66,7 +122,11 @@ export class MessageItem extends HTMLElement {
    */
   appendContent(chunk: string): void {
     this._content += chunk;
-    this._updateContent();
+    if (this.hasAttribute('streaming') && !this._isEditing) {
+      this._updateContentIncremental();
+    } else {
+      this._updateContent();
+    }
   }
 
   /**
@@ -92,6 +152,7 @@ export class MessageItem extends HTMLElement {
       console.log('[MessageItem Debug] Setting sources:', value);
     }
     this._sources = value;
+    this._sourceIndex = value ? SourceIndex.fromSources(value) : null;
     this._updateReferences();
   }
 
@@ -99,6 +160,30 @@ export class MessageItem extends HTMLElement {
     return this._sources;
   }
 
+  /**
+   * Set agentic workflow steps (shown as a collapsible timeline above the answer).
+   */
+  set steps(value: AgentStep[] | null) {
+    this._steps = value;
+    this._updateSteps();
+  }
+
+  get steps(): AgentStep[] | null {
+    return this._steps;
+  }
+
+  /**
+   * Set the files attached to the message (shown above the text).
+   */
+  set attachments(value: Attachment[] | null) {
+    this._attachments = value;
+    this._updateAttachments();
+  }
+
+  get attachments(): Attachment[] | null {
+    return this._attachments;
+  }
+
   /**
    * Set whether to hide sources (inline citations and sources list).
    */
@@ -112,6 +197,136 @@ export class MessageItem extends HTMLElement {
     return this._hideSources;
   }
 
+  /**
+   * Set the URL sanitizer used for markdown links and reference URLs.
+   */
+  set urlSanitizer(value: UrlSanitizer) {
+    this._urlSanitizer = value;
+    this._markdownRenderer = this._createMarkdownRenderer();
+    this._updateContent();
+    this._updateReferences();
+  }
+
+  get urlSanitizer(): UrlSanitizer {
+    return this._urlSanitizer;
+  }
+
+  /**
+   * Set the URL template for source documents. `{documentId}`, `{page}` and
+   * `{sourceId}` are replaced with the (encoded) source values.
+   */
+  set documentUrlTemplate(value: string) {
+    this._documentUrlTemplate = value || '';
+    this._updateReferences();
+  }
+
+  get documentUrlTemplate(): string {
+    return this._documentUrlTemplate;
+  }
+
+  /**
+   * Set an external code highlighter (falls back to the built-in one when it returns null).
+   */
+  set highlighter(value: HighlightFunction | null) {
+    this._highlighter = value;
+    this._markdownRenderer = this._createMarkdownRenderer();
+    this._updateContent();
+  }
+
+  get highlighter(): HighlightFunction | null {
+    return this._highlighter;
+  }
+
+  /**
+   * Set whether the message offers an "Edit" action (user messages).
+   */
+  set canEdit(value: boolean) {
+    if (value === this._canEdit) return;
+    this._canEdit = value;
+    this._updateActions();
+  }
+
+  get canEdit(): boolean {
+    return this._canEdit;
+  }
+
+  /**
+   * Set whether the message offers a "Regenerate" action (last assistant message).
+   */
+  set canRegenerate(value: boolean) {
+    if (value === this._canRegenerate) return;
+    this._canRegenerate = value;
+    this._updateActions();
+  }
+
+  get canRegenerate(): boolean {
+    return this._canRegenerate;
+  }
+
+  /**
+   * Set whether the message offers thumbs up/down feedback (completed assistant messages).
+   */
+  set canRate(value: boolean) {
+    if (value === this._canRate) return;
+    this._canRate = value;
+    this._updateActions();
+  }
+
+  get canRate(): boolean {
+    return this._canRate;
+  }
+
+  /**
+   * Set whether the message offers a "read aloud" button.
+   */
+  set canReadAloud(value: boolean) {
+    if (value === this._canReadAloud) return;
+    this._canReadAloud = value;
+    this._updateActions();
+  }
+
+  get canReadAloud(): boolean {
+    return this._canReadAloud;
+  }
+
+  /**
+   * Set whether the message is being read aloud (the button then stops it).
+   */
+  set speaking(value: boolean) {
+    if (value === this._speaking) return;
+    this._speaking = value;
+    this._updateActions();
+  }
+
+  get speaking(): boolean {
+    return this._speaking;
+  }
+
+  /**
+   * Set the feedback given for this message.
+   */
+  set feedback(value: MessageFeedback | null) {
+    const current = this._feedback;
+    if (value === current || (value && current && value.rating === current.rating &&
+        value.comment === current.comment && value.timestamp === current.timestamp)) return;
+    this._feedback = value;
+    this._updateActions();
+  }
+
+  get feedback(): MessageFeedback | null {
+    return this._feedback;
+  }
+
+  /**
+   * Set the active variant and number of variants (shows a "2/3" switcher when > 1).
+   */
+  setVariants(index: number, count: number): void {
+    if (index === this._variantIndex && count === this._variantCount) return;
+    this._variantIndex = index;
+    this._variantCount = count;
+    this._updateActions();
+  }
+
   /**
    * Set theme colors.
    */
@@ -124,40 +339,612 @@ export class MessageItem extends HTMLElement {
    * Update just the content area (more efficient than full re-render).
    */
   private _updateContent(): void {
-    if (!this.shadowRoot) return;
+    if (!this.shadowRoot || this._isEditing) return;
     const contentEl = this.shadowRoot.querySelector('.content');
     if (contentEl) {
-      // First render markdown, then process citations (unless sources are hidden)
-      let renderedContent = this._markdownRenderer.render(this._content);
-      if (!this._hideSources && this._sources && this._sources.length > 0) {
-        renderedContent = this._processCitations(renderedContent);
+      this._streamingRenderer?.reset();
+      contentEl.innerHTML = this._renderMarkdown(this._content);
+      this._decorateCodeBlocks();
+    }
+  }
+
+  /**
+   * Update the content while streaming: only the last open block is
+   * re-rendered, at most once per animation frame.
+   */
+  private _updateContentIncremental(): void {
+    const contentEl = this.shadowRoot?.querySelector('.content');
+    if (!contentEl) return;
+
+    // The content element is replaced when the whole message re-renders
+    if (!this._streamingRenderer || this._streamingRenderer.element !== contentEl) {
+      this._streamingRenderer?.cancel();
+      this._streamingRenderer = new StreamingMarkdownRenderer(
+        contentEl,
+        markdown => this._renderMarkdown(markdown),
+        () => this._decorateCodeBlocks()
+      );
+    }
+    this._streamingRenderer.update(this._content);
+  }
+
+  /**
+   * Render markdown, then process citations (unless sources are hidden).
+   */
+  private _renderMarkdown(markdown: string): string {
+    const html = this._markdownRenderer.render(markdown);
+    if (!this._hideSources && this._sources && this._sources.length > 0) {
+      return this._processCitations(html);
+    }
+    return html;
+  }
+
+  private _createMarkdownRenderer(): MarkdownRenderer {
+    return new MarkdownRenderer({ urlSanitizer: this._urlSanitizer, highlight: this._highlighter });
+  }
+
+  /**
+   * Add a header with the language label and a copy button to each code block.
+   */
+  private _decorateCodeBlocks(): void {
+    if (!this.shadowRoot) return;
+
+    this.shadowRoot.querySelectorAll('.content pre').forEach(pre => {
+      if (pre.parentElement?.classList.contains('code-block')) return;
+
+      const code = pre.querySelector('code');
+      const langClass = Array.from(code?.classList || []).find(c => c.startsWith('language-'));
+      const lang = langClass ? langClass.slice('language-'.length) : '';
+
+      const wrapper = document.createElement('div');
+      wrapper.className = 'code-block';
+
+      const header = document.createElement('div');
+      header.className = 'code-header';
+      header.innerHTML = `
+        <span class="code-lang">${this._escapeHtml(this._languageLabel(lang))}</span>
+        <button type="button" class="copy-btn" aria-label="Copy code" title="Copy code">
+          <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor" aria-hidden="true">
+            <path d="M16 1H4a2 2 0 00-2 2v14h2V3h12V1zm3 4H8a2 2 0 00-2 2v14a2 2 0 002 2h11a2 2 0 002-2V7a2 2 0 00-2-2zm0 16H8V7h11v14z"/>
+          </svg>
+          <span class="copy-label">Copy</span>
+        </button>
+      `;
+
+      const button = header.querySelector('.copy-btn') as HTMLButtonElement;
+      button.addEventListener('click', () => {
+        this._copyToClipboard(code?.textContent || pre.textContent || '').then(copied => {
+          const label = button.querySelector('.copy-label');
+          if (!label) return;
+          label.textContent = copied ? 'Copied' : 'Copy failed';
+          button.classList.toggle('copied', copied);
+          setTimeout(() => {
+            label.textContent = 'Copy';
+            button.classList.remove('copied');
+          }, 2000);
+        });
+      });
+
+      pre.replaceWith(wrapper);
+      wrapper.appendChild(header);
+      wrapper.appendChild(pre);
+    });
+  }
+
+  private _languageLabel(lang: string): string {
+    return LANGUAGE_LABELS[lang.toLowerCase()] || lang || 'Code';
+  }
+
+  /**
+   * Copy text, falling back to a hidden textarea where the Clipboard API is unavailable.
+   */
+  private async _copyToClipboard(text: string): Promise<boolean> {
+    try {
+      if (navigator.clipboard?.writeText) {
+        await navigator.clipboard.writeText(text);
+        return true;
       }
-      contentEl.innerHTML = renderedContent;
+    } catch {
+      // Fall through to the legacy approach (e.g. insecure context)
+    }
+
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.setAttribute('readonly', '');
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    this.shadowRoot?.appendChild(textarea);
+    textarea.select();
+    try {
+      return document.execCommand('copy');
+    } catch {
+      return false;
+    } finally {
+      textarea.remove();
     }
   }
 
   /**
-   * Process :cite[sourceId] markers and replace with numbered citations.
+   * Update the attachments: image thumbnails, or name and size for other files.
    */
-  private _processCitations(content: string): string {
-    if (!this._sources) return content;
+  private _updateAttachments(): void {
+    if (!this.shadowRoot) return;
+    const contentEl = this.shadowRoot.querySelector('.content');
+    let attachmentsEl = this.shadowRoot.querySelector('.attachments');
+
+    if (!this._attachments || this._attachments.length === 0) {
+      attachmentsEl?.remove();
+      return;
+    }
+
+    if (!attachmentsEl && contentEl) {
+      attachmentsEl = document.createElement('div');
+      attachmentsEl.className = 'attachments';
+      contentEl.before(attachmentsEl);
+    }
+    if (!attachmentsEl) return;
+
+    attachmentsEl.innerHTML = this._attachments.map(attachment => {
+      const name = this._escapeHtml(attachment.name);
+      const size = AttachmentPolicy.formatSize(attachment.size);
+      if (attachment.unavailable) {
+        return `<span class="attachment-file unavailable" title="${name}: the file is no longer available and was not sent">
+        <span aria-hidden="true">&#128196;</span>
+        <span class="attachment-name">${name}</span>
+        <span class="attachment-size">not sent</span>
+      </span>`;
+      }
+      if (AttachmentPolicy.isSafeThumbnail(attachment.thumbnail)) {
+        return `<img class="attachment-thumb" src="${attachment.thumbnail}" alt="${name}" title="${name} (${size})">`;
+      }
+      return `<span class="attachment-file" title="${name}">
+        <span aria-hidden="true">&#128196;</span>
+        <span class="attachment-name">${name}</span>
+        <span class="attachment-size">${size}</span>
+      </span>`;
+    }).join('');
+  }
+
+  /**
+   * Update the agentic workflow steps timeline.
+   */
+  private _updateSteps(): void {
+    if (!this.shadowRoot) return;
+    const contentEl = this.shadowRoot.querySelector('.content');
+    let stepsEl = this.shadowRoot.querySelector('.steps') as HTMLDetailsElement | null;
+
+    if (!this._steps || this._steps.length === 0) {
+      stepsEl?.remove();
+      return;
+    }
+
+    if (!stepsEl && contentEl) {
+      stepsEl = document.createElement('details');
+      stepsEl.className = 'steps';
+      contentEl.before(stepsEl);
+    }
+    if (!stepsEl) return;
+
+    const running = this._steps.find(step => step.status === 'running');
+    const summary = running
+      ? `${this._escapeHtml(running.title)}&hellip;`
+      : `${this._steps.length} step${this._steps.length === 1 ? '' : 's'}`;
+
+    const items = this._steps.map(step => {
+      const icon = step.status === 'running'
+        ? '<span class="step-icon spinner"></span>'
+        : `<span class="step-icon">${step.status === 'failed' ? '&#10007;' : '&#10003;'}</span>`;
+      const detail = step.detail ? `<div class="step-detail">${this._escapeHtml(step.detail)}</div>` : '';
+      return `<li class="step ${step.status}">
+        ${icon}
+        <div class="step-body">
+          <div class="step-title">${this._escapeHtml(step.title)}</div>
+          ${detail}
+        </div>
+      </li>`;
+    }).join('');
+
+    // Keep the user's open/closed choice across updates
+    stepsEl.innerHTML = `
+      <summary class="steps-summary ${running ? 'running' : ''}">${summary}</summary>
+      <ol class="steps-list">${items}</ol>
+    `;
+  }
+
+  /**
+   * Update the action bar (edit, regenerate, variant switcher, read aloud, feedback).
+   */
+  private _updateActions(): void {
+    if (!this.shadowRoot) return;
+    const messageEl = this.shadowRoot.querySelector('.message');
+    if (!messageEl) return;
+
+    // Restore focus to the same button after rebuilding
+    const focused = this.shadowRoot.activeElement?.closest('.actions .action-btn') || null;
+    const focusKey = focused ? focused.getAttribute('data-rating') || focused.classList[1] : null;
+    this.shadowRoot.querySelector('.actions')?.remove();
+
+    const hasVariants = this._variantCount > 1;
+    const canRate = this._canRate && !this.hasAttribute('streaming');
+
+    // Keep an open comment form (and what was typed) for the same rating
+    const form = this.shadowRoot.querySelector('.feedback-form');
+    if (form && !(canRate && !this._isEditing && form.getAttribute('data-rating') === this._feedbackDraft)) {
+      form.remove();
+    }
+
+    // Answers read while streaming can be stopped before they are complete
+    const canReadAloud = this._canReadAloud && (this._speaking || !this.hasAttribute('streaming'));
+    if (this._isEditing || (!this._canEdit && !this._canRegenerate && !hasVariants && !canRate && !canReadAloud)) return;
+
+    const role = this.getAttribute('sender') || 'user';
+    const actionsEl = document.createElement('div');
+    actionsEl.className = `actions ${role}`;
+
+    let html = '';
+    if (hasVariants) {
+      html += `
+        <button type="button" class="action-btn variant-prev" aria-label="Previous version" title="Previous version"
+          ${this._variantIndex <= 0 ? 'disabled' : ''}>&#8249;</button>
+        <span class="variant-label">${this._variantIndex + 1}/${this._variantCount}</span>
+        <button type="button" class="action-btn variant-next" aria-label="Next version" title="Next version"
+          ${this._variantIndex >= this._variantCount - 1 ? 'disabled' : ''}>&#8250;</button>`;
+    }
+    if (this._canEdit) {
+      html += `
+        <button type="button" class="action-btn edit-btn" aria-label="Edit message" title="Edit">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a1 1 0 000-1.41l-2.34-2.34a1 1 0 00-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+          </svg>
+        </button>`;
+    }
+    if (this._canRegenerate) {
+      html += `
+        <button type="button" class="action-btn regenerate-btn" aria-label="Regenerate response" title="Regenerate">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M17.65 6.35A7.958 7.958 0 0012 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08A5.99 5.99 0 0112 18c-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z"/>
+          </svg>
+        </button>`;
+    }
+    if (canReadAloud) {
+      const label = this._speaking ? 'Stop reading' : 'Read aloud';
+      html += `
+        <button type="button" class="action-btn read-aloud-btn ${this._speaking ? 'active' : ''}"
+          aria-label="${label}" aria-pressed="${this._speaking}" title="${label}">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            ${this._speaking
+              ? '<path d="M6 6h12v12H6z"/>'
+              : '<path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3A4.5 4.5 0 0014 7.97v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/>'}
+          </svg>
+        </button>`;
+    }
+    if (canRate) {
+      const rating = this._feedbackDraft || this._feedback?.rating;
+      html += `
+        <button type="button" class="action-btn feedback-btn ${rating === 'up' ? 'active' : ''}" data-rating="up"
+          aria-label="Good response" aria-pressed="${rating === 'up'}" title="Good response">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M1 21h4V9H1v12zm22-11c0-1.1-.9-2-2-2h-6.31l.95-4.57.03-.32c0-.41-.17-.79-.44-1.06L14.17 1 7.59 7.59C7.22 7.95 7 8.45 7 9v10c0 1.1.9 2 2 2h9c.83 0 1.54-.5 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-2z"/>
+          </svg>
+        </button>
+        <button type="button" class="action-btn feedback-btn ${rating === 'down' ? 'active' : ''}" data-rating="down"
+          aria-label="Bad response" aria-pressed="${rating === 'down'}" title="Bad response">
+          <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path d="M15 3H6c-.83 0-1.54.5-1.84 1.22l-3.02 7.05c-.09.23-.14.47-.14.73v2c0 1.1.9 2 2 2h6.31l-.95 4.57-.03.32c0 .41.17.79.44 1.06L9.83 23l6.59-6.59c.36-.36.58-.86.58-1.41V5c0-1.1-.9-2-2-2zm4 0v12h4V3h-4z"/>
+          </svg>
+        </button>`;
+    }
+    actionsEl.innerHTML = html;
 
-    // Create a map of sourceId to index
-    const sourceMap = new Map<string, number>();
-    this._sources.forEach((source, index) => {
-      sourceMap.set(source.sourceId, index + 1);
+    actionsEl.querySelector('.variant-prev')?.addEventListener('click', () => {
+      this._dispatchVariantSwitch(this._variantIndex - 1);
+    });
+    actionsEl.querySelector('.variant-next')?.addEventListener('click', () => {
+      this._dispatchVariantSwitch(this._variantIndex + 1);
+    });
+    actionsEl.querySelector('.edit-btn')?.addEventListener('click', () => {
+      this._startEditing();
+    });
+    actionsEl.querySelector('.regenerate-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('regenerate', {
+        bubbles: true,
+        composed: true
+      }));
+    });
+    actionsEl.querySelector('.read-aloud-btn')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('read-aloud', {
+        bubbles: true,
+        composed: true
+      }));
+    });
+    actionsEl.querySelectorAll('.feedback-btn').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const rating = btn.getAttribute('data-rating') as MessageFeedback['rating'];
+        this._feedbackDraft = this._feedbackDraft === rating ? null : rating;
+        this._updateActions();
+      });
+    });
+
+    messageEl.after(actionsEl);
+
+    if (canRate && this._feedbackDraft && !this.shadowRoot.querySelector('.feedback-form')) {
+      actionsEl.after(this._createFeedbackForm(this._feedbackDraft));
+    }
+
+    if (focusKey) {
+      const button = actionsEl.querySelector(`[data-rating="${focusKey}"], .${focusKey}`) as HTMLElement | null;
+      button?.focus();
+    }
+  }
+
+  /**
+   * Create the optional comment form shown after choosing a rating.
+   * Sending or skipping dispatches a `feedback` event.
+   */
+  private _createFeedbackForm(rating: MessageFeedback['rating']): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'feedback-form';
+    form.setAttribute('data-rating', rating);
+    form.innerHTML = `
+      <textarea class="feedback-input" rows="2" aria-label="Feedback comment"
+        placeholder="${rating === 'up' ? 'What was helpful? (optional)' : 'What went wrong? (optional)'}"></textarea>
+      <div class="edit-buttons">
+        <button type="button" class="feedback-skip">Skip</button>
+        <button type="button" class="feedback-send">Send</button>
+      </div>
+    `;
+
+    const textarea = form.querySelector('textarea') as HTMLTextAreaElement;
+    if (this._feedback?.rating === rating) textarea.value = this._feedback.comment || '';
+
+    const submit = (comment: string): void => {
+      this._feedbackDraft = null;
+      this._feedback = { rating, comment: comment || undefined, timestamp: Date.now() };
+      this._updateActions();
+      this.dispatchEvent(new CustomEvent('feedback', {
+        bubbles: true,
+        composed: true,
+        detail: { rating, comment }
+      }));
+    };
+
+    form.querySelector('.feedback-skip')?.addEventListener('click', () => submit(''));
+    form.querySelector('.feedback-send')?.addEventListener('click', () => submit(textarea.value.trim()));
+    textarea.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        submit(textarea.value.trim());
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this._feedbackDraft = null;
+        this._updateActions();
+      }
+    });
+
+    requestAnimationFrame(() => textarea.focus());
+    return form;
+  }
+
+  private _dispatchVariantSwitch(index: number): void {
+    this.dispatchEvent(new CustomEvent('switch-variant', {
+      bubbles: true,
+      composed: true,
+      detail: { index }
+    }));
+  }
+
+  /**
+   * Replace the content with an inline editor for re-sending the message.
+   */
+  private _startEditing(): void {
+    if (!this.shadowRoot) return;
+    const contentEl = this.shadowRoot.querySelector('.content');
+    if (!contentEl) return;
+
+    this._isEditing = true;
+    this._updateActions();
+
+    contentEl.innerHTML = `
+      <textarea class="edit-input" rows="3"></textarea>
+      <div class="edit-buttons">
+        <button type="button" class="edit-cancel">Cancel</button>
+        <button type="button" class="edit-save">Send</button>
+      </div>
+    `;
+
+    const textarea = contentEl.querySelector('textarea') as HTMLTextAreaElement;
+    textarea.value = this._content;
+    textarea.focus();
+
+    const finish = (): void => {
+      this._isEditing = false;
+      this._updateContent();
+      this._updateActions();
+    };
+
+    const save = (): void => {
+      const content = textarea.value.trim();
+      if (!content) return;
+      finish();
+      if (content === this._content) return;
+      this.dispatchEvent(new CustomEvent('edit', {
+        bubbles: true,
+        composed: true,
+        detail: { content }
+      }));
+    };
+
+    textarea.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        save();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finish();
+      }
     });
+    contentEl.querySelector('.edit-save')?.addEventListener('click', save);
+    contentEl.querySelector('.edit-cancel')?.addEventListener('click', finish);
+  }
+
+  /**
+   * Show or hide the "stopped" note for interrupted responses.
+   */
+  private _updateInterrupted(): void {
+    if (!this.shadowRoot) return;
+    const contentEl = this.shadowRoot.querySelector('.content');
+    let noteEl = this.shadowRoot.querySelector('.interrupted-note');
+
+    if (!this.hasAttribute('interrupted')) {
+      noteEl?.remove();
+      return;
+    }
+
+    if (!noteEl && contentEl) {
+      noteEl = document.createElement('div');
+      noteEl.className = 'interrupted-note';
+      noteEl.textContent = 'Response stopped';
+      contentEl.after(noteEl);
+    }
+  }
+
+  /**
+   * Process :cite[sourceId] markers and replace with numbered citations.
+   */
+  private _processCitations(content: string): string {
+    const sourceIndex = this._sourceIndex;
+    if (!sourceIndex) return content;
 
-    // Replace :cite[sourceId] with [n] links
+    // Replace :cite[sourceId] with [n] links, numbered per document
     return content.replace(/:cite\[([^\]]+)\]/g, (match, sourceId: string) => {
-      const num = sourceMap.get(sourceId);
+      const num = sourceIndex.groupFor(sourceId)?.number;
       if (num) {
-        return `<sup class="citation" data-source="${sourceId}">[${num}]</sup>`;
+        return `<sup class="citation" data-source="${this._escapeHtml(sourceId)}" role="button" tabindex="0" aria-label="Source ${num}">[${num}]</sup>`;
       }
       return match;
     });
   }
 
+  /**
+   * Resolve the document URL for a source from the URL template.
+   */
+  private _resolveDocumentUrl(source: { documentId: string; page?: number; sourceId?: string }): SanitizedUrl | null {
+    if (!this._documentUrlTemplate) return null;
+
+    const values: Record<string, string> = {
+      documentId: source.documentId || '',
+      page: source.page !== undefined ? String(source.page) : '',
+      sourceId: source.sourceId || ''
+    };
+    const url = this._documentUrlTemplate.replace(
+      /\{(documentId|page|sourceId)\}/g,
+      (_, key: string) => encodeURIComponent(values[key])
+    );
+    return this._urlSanitizer.sanitize(url);
+  }
+
+  /**
+   * Handle a click (or Enter/Space) on an inline citation.
+   * Fires a cancelable `citation-click` event; unless the host cancels it,
+   * the source is highlighted in the list and shown in a popover.
+   */
+  private _onCitationActivate(citation: HTMLElement): void {
+    const sourceId = citation.getAttribute('data-source');
+    const source = this._sources?.find(s => s.sourceId === sourceId);
+    if (!source) return;
+
+    const url = this._resolveDocumentUrl(source);
+    const proceed = this.dispatchEvent(new CustomEvent('citation-click', {
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+      detail: { source, url: url ? url.href : null }
+    }));
+    if (!proceed) {
+      this._hideCitationPopover();
+      return;
+    }
+
+    this._highlightReference(source.sourceId);
+    this._showCitationPopover(citation, source, url);
+  }
+
+  /**
+   * Scroll to and briefly highlight the matching entry in the Sources list.
+   */
+  private _highlightReference(sourceId: string): void {
+    const group = this._sourceIndex?.groupFor(sourceId);
+    const item = group ? this.shadowRoot?.querySelector(`.reference-item[data-group="${group.number}"]`) : null;
+    if (!item) return;
+
+    this.shadowRoot?.querySelectorAll('.reference-item.highlighted').forEach(el => el.classList.remove('highlighted'));
+    item.classList.add('highlighted');
+    item.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+
+    if (this._highlightTimer) clearTimeout(this._highlightTimer);
+    this._highlightTimer = setTimeout(() => {
+      item.classList.remove('highlighted');
+      this._highlightTimer = null;
+    }, 2000);
+  }
+
+  private _showCitationPopover(citation: HTMLElement, source: InlineSource, url: SanitizedUrl | null): void {
+    const bubble = this.shadowRoot?.querySelector('.bubble') as HTMLElement | null;
+    if (!bubble) return;
+
+    this._hideCitationPopover();
+
+    const popover = document.createElement('div');
+    popover.className = 'citation-popover';
+    popover.setAttribute('role', 'dialog');
+    popover.setAttribute('aria-label', 'Source');
+
+    const name = this._escapeHtml(source.documentName || 'Document');
+    const page = source.page ? `<div class="popover-page">Page ${source.page}</div>` : '';
+    const link = url
+      ? `<a class="popover-link" href="${this._escapeHtml(url.href)}" target="_blank" rel="noopener noreferrer">Open document${url.external ? '<span class="external-icon" aria-hidden="true">↗</span>' : ''}</a>`
+      : '';
+    popover.innerHTML = `
+      <div class="popover-name">${name}</div>
+      ${page}
+      ${link}
+    `;
+    bubble.appendChild(popover);
+
+    // Position below the citation, kept inside the bubble horizontally
+    const bubbleRect = bubble.getBoundingClientRect();
+    const citeRect = citation.getBoundingClientRect();
+    const maxLeft = Math.max(0, bubble.clientWidth - popover.offsetWidth);
+    popover.style.top = `${citeRect.bottom - bubbleRect.top + 4}px`;
+    popover.style.left = `${Math.min(Math.max(0, citeRect.left - bubbleRect.left), maxLeft)}px`;
+
+    document.addEventListener('click', this._onDocumentClick, true);
+    document.addEventListener('keydown', this._onDocumentKeydown, true);
+  }
+
+  private _hideCitationPopover(): void {
+    this.shadowRoot?.querySelector('.citation-popover')?.remove();
+    document.removeEventListener('click', this._onDocumentClick, true);
+    document.removeEventListener('keydown', this._onDocumentKeydown, true);
+  }
+
+  private _onDocumentClick = (e: MouseEvent): void => {
+    const path = e.composedPath();
+    const popover = this.shadowRoot?.querySelector('.citation-popover');
+    const onCitation = path.some(el => el instanceof HTMLElement && el.classList.contains('citation'));
+    if (popover && !path.includes(popover) && !onCitation) {
+      this._hideCitationPopover();
+    }
+  };
+
+  private _onDocumentKeydown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      // Keeps the chat window open
+      e.preventDefault();
+      this._hideCitationPopover();
+    }
+  };
+
   /**
    * Update the references section.
    */
@@ -204,21 +991,12 @@ export class MessageItem extends HTMLElement {
   }
 
   /**
-   * Render inline sources.
+   * Render inline sources, one entry per document.
    */
   private _renderSources(sources: InlineSource[]): string {
     if (!sources || sources.length === 0) return '';
-
-    const items = sources.map((source, index) => {
-      const name = source.documentName || 'Document';
-      const page = source.page ? ` (p. ${source.page})` : '';
-      return `<div class="reference-item">
-        <span class="reference-num">[${index + 1}]</span>
-        <span class="reference-name">${this._escapeHtml(name)}${page}</span>
-      </div>`;
-    }).join('');
-
-    return `<div class="references-title">Sources</div>${items}`;
+    const groups = this._sourceIndex ? this._sourceIndex.groups : SourceIndex.fromSources(sources).groups;
+    return this._renderSourceGroups(groups);
   }
 
   /**
@@ -227,31 +1005,45 @@ export class MessageItem extends HTMLElement {
    */
   private _renderLegacyReferences(refs: LegacyReferences): string {
     if (!refs) return '';
+    return this._renderSourceGroups(SourceIndex.fromLegacyReferences(refs).groups);
+  }
 
-    // Handle nested structure from API
-    const refsData = refs.references || refs;
-    const documents: LegacyDocument[] = refsData.documents || [];
-    if (documents.length === 0) return '';
-
-    const items = documents.map((doc, index) => {
-      const name = doc.name || 'Document';
-      const metadata = doc.metadata || {};
-      const url = metadata.url || metadata.source_url;
-
-      if (url) {
-        return `<div class="reference-item">
-          <span class="reference-num">[${index + 1}]</span>
-          <a href="${this._escapeHtml(url)}" target="_blank" rel="noopener noreferrer" class="reference-link">${this._escapeHtml(name)}</a>
-        </div>`;
-      }
+  private _renderSourceGroups(groups: SourceGroup[]): string {
+    if (groups.length === 0) return '';
+    return `<div class="references-title">Sources</div>${groups.map(group => this._renderSourceGroup(group)).join('')}`;
+  }
 
-      return `<div class="reference-item">
-        <span class="reference-num">[${index + 1}]</span>
-        <span class="reference-name">${this._escapeHtml(name)}</span>
-      </div>`;
-    }).join('');
+  /**
+   * Render one document: its name (linked if a URL is known) and the
+   * cited pages. With a page-aware URL template each page links directly.
+   */
+  private _renderSourceGroup(group: SourceGroup): string {
+    const name = this._escapeHtml(group.documentName);
+    const firstPage = group.pages[0];
+    const url = group.url
+      ? this._urlSanitizer.sanitize(group.url)
+      : this._resolveDocumentUrl({ documentId: group.documentId, page: firstPage, sourceId: group.sources[0]?.sourceId });
+
+    const label = url
+      ? `<a href="${this._escapeHtml(url.href)}" target="_blank" rel="noopener noreferrer" class="reference-link${url.external ? ' external-link' : ''}">${name}${url.external ? '<span class="external-icon" aria-hidden="true">↗</span>' : ''}</a>`
+      : `<span class="reference-name">${name}</span>`;
+
+    let pages = '';
+    if (group.pages.length > 0) {
+      const linkPages = !group.url && group.pages.length > 1 && this._documentUrlTemplate.includes('{page}');
+      const list = group.pages.map(page => {
+        const pageUrl = linkPages ? this._resolveDocumentUrl({ documentId: group.documentId, page }) : null;
+        return pageUrl
+          ? `<a href="${this._escapeHtml(pageUrl.href)}" target="_blank" rel="noopener noreferrer">${page}</a>`
+          : String(page);
+      }).join(', ');
+      pages = `<span class="reference-pages"> — ${group.pages.length === 1 ? 'p.' : 'pp.'} ${list}</span>`;
+    }
 
-    return `<div class="references-title">Sources</div>${items}`;
+    return `<div class="reference-item" data-group="${group.number}">
+      <span class="reference-num">[${group.number}]</span>
+      <span class="reference-label">${label}${pages}</span>
+    </div>`;
   }
 
   /**
@@ -263,22 +1055,62 @@ export class MessageItem extends HTMLElement {
     return String(text).replace(/[&<>"']/g, m => map[m]);
   }
 
+  /**
+   * Mark the message as incomplete for screen readers while it streams.
+   */
+  private _updateBusy(): void {
+    if (this.hasAttribute('streaming')) {
+      this.setAttribute('aria-busy', 'true');
+    } else {
+      this.removeAttribute('aria-busy');
+    }
+  }
+
+  /**
+   * Move focus to the previous or next citation in the message.
+   */
+  private _focusSiblingCitation(citation: HTMLElement, offset: number): void {
+    const citations = Array.from(this.shadowRoot?.querySelectorAll<HTMLElement>('.content .citation') || []);
+    citations[citations.indexOf(citation) + offset]?.focus();
+  }
+
   private render(): void {
     if (!this.shadowRoot) return;
 
-    const role = this.getAttribute('role') || 'user';
+    const role = this.getAttribute('sender') || 'user';
     const isStreaming = this.hasAttribute('streaming');
 
+    // Named after the author, like the transcript
+    const author = role === 'agent' ? this.getAttribute('agent-name') || 'Support agent' : role === 'user' ? 'You' : 'Assistant';
+    this.setAttribute('role', 'article');
+    this.setAttribute('aria-label', author);
+    this._updateBusy();
+
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          --primary-color: var(--omnifact-primary, #6366f1);
+          --primary-color: var(--omnifact-primary, #4f46e5);
           --text-color: var(--omnifact-text, #1f2937);
           --user-bg: var(--primary-color);
           --assistant-bg: #f3f4f6;
+          --agent-bg: #ecfdf5;
           display: block;
         }
 
+        :host(:focus) {
+          outline: none;
+        }
+
+        :host(:focus) .bubble {
+          outline: 2px solid var(--primary-color);
+          outline-offset: 2px;
+        }
+
+        /* Only show the focus ring for keyboard focus where supported */
+        :host(:focus:not(:focus-visible)) .bubble {
+          outline: none;
+        }
+
         .message {
           display: flex;
           gap: 8px;
@@ -290,7 +1122,8 @@ export class MessageItem extends HTMLElement {
           flex-direction: row-reverse;
         }
 
-        .message.assistant {
+        .message.assistant,
+        .message.agent {
           margin-right: auto;
         }
 
@@ -311,7 +1144,12 @@ export class MessageItem extends HTMLElement {
           color: white;
         }
 
+        .message.agent .avatar {
+          background: #a7f3d0;
+        }
+
         .bubble {
+          position: relative;
           padding: 10px 14px;
           border-radius: 16px;
           line-height: 1.5;
@@ -331,24 +1169,90 @@ export class MessageItem extends HTMLElement {
           border-bottom-left-radius: 4px;
         }
 
+        .message.agent .bubble {
+          background: var(--agent-bg);
+          color: var(--text-color);
+          border-bottom-left-radius: 4px;
+        }
+
+        .attachments {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-bottom: 6px;
+        }
+
+        .attachment-thumb {
+          max-width: 120px;
+          max-height: 120px;
+          border-radius: 8px;
+          display: block;
+        }
+
+        .attachment-file {
+          display: inline-flex;
+          align-items: center;
+          gap: 6px;
+          max-width: 200px;
+          padding: 4px 8px;
+          border-radius: 8px;
+          background: rgba(255, 255, 255, 0.2);
+          font-size: 12px;
+        }
+
+        .attachment-name {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .attachment-size {
+          opacity: 0.8;
+          white-space: nowrap;
+        }
+
+        .attachment-file.unavailable .attachment-name {
+          text-decoration: line-through;
+        }
+
+        /* Message with attachments only */
+        .attachments + .content:empty {
+          display: none;
+        }
+
+        .agent-name {
+          margin-bottom: 2px;
+          font-size: 12px;
+          font-weight: 600;
+          color: #047857;
+        }
+
         .content {
           font-size: 14px;
         }
 
         /* Markdown styles */
-        .content h2, .content h3, .content h4 {
+        .content h2, .content h3, .content h4, .content h5, .content h6 {
           margin: 0.5em 0 0.25em;
           font-weight: 600;
         }
 
         .content h2 { font-size: 1.2em; }
         .content h3 { font-size: 1.1em; }
-        .content h4 { font-size: 1em; }
+        .content h4, .content h5, .content h6 { font-size: 1em; }
 
         .content p {
           margin: 0.25em 0;
         }
 
+        .content > :first-child {
+          margin-top: 0;
+        }
+
+        .content > :last-child {
+          margin-bottom: 0;
+        }
+
         .content code {
           background: rgba(0, 0, 0, 0.08);
           padding: 0.1em 0.3em;
@@ -377,7 +1281,68 @@ export class MessageItem extends HTMLElement {
           color: inherit;
         }
 
-        .content ul {
+        .content .code-block {
+          margin: 0.5em 0;
+          border-radius: 8px;
+          overflow: hidden;
+          background: #1f2937;
+        }
+
+        .content .code-block pre {
+          margin: 0;
+          border-radius: 0;
+        }
+
+        .code-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 4px 8px 4px 12px;
+          background: #111827;
+          color: #9ca3af;
+          font-size: 12px;
+        }
+
+        .copy-btn {
+          display: inline-flex;
+          align-items: center;
+          gap: 4px;
+          padding: 2px 6px;
+          border: none;
+          border-radius: 4px;
+          background: transparent;
+          color: inherit;
+          font: inherit;
+          cursor: pointer;
+        }
+
+        .copy-btn:hover {
+          background: rgba(255, 255, 255, 0.1);
+          color: #f3f4f6;
+        }
+
+        .copy-btn.copied {
+          color: #34d399;
+        }
+
+        /* Syntax highlighting */
+        .tok-comment { color: #9ca3af; font-style: italic; }
+        .tok-keyword { color: #c792ea; }
+        .tok-string { color: #c3e88d; }
+        .tok-number { color: #f78c6c; }
+        .tok-literal { color: #ff9cac; }
+        .tok-function { color: #82aaff; }
+        .tok-type { color: #ffcb6b; }
+        .tok-property { color: #89ddff; }
+        .tok-variable { color: #f07178; }
+        .tok-option { color: #89ddff; }
+        .tok-decorator { color: #ffcb6b; }
+        .tok-tag { color: #f07178; }
+        .tok-attr { color: #ffcb6b; }
+        .tok-entity { color: #f78c6c; }
+        .tok-selector { color: #ffcb6b; }
+
+        .content ul, .content ol {
           margin: 0.5em 0;
           padding-left: 1.25em;
         }
@@ -386,11 +1351,76 @@ export class MessageItem extends HTMLElement {
           margin: 0.2em 0;
         }
 
+        .content li > ul, .content li > ol {
+          margin: 0.2em 0;
+        }
+
+        .content li.task-list-item {
+          list-style: none;
+          margin-left: -1.25em;
+        }
+
+        .content li.task-list-item input {
+          margin: 0 0.4em 0 0;
+          vertical-align: middle;
+        }
+
+        .content blockquote {
+          margin: 0.5em 0;
+          padding: 0.1em 0 0.1em 0.75em;
+          border-left: 3px solid rgba(0, 0, 0, 0.15);
+          color: inherit;
+          opacity: 0.85;
+        }
+
+        .content hr {
+          border: none;
+          border-top: 1px solid rgba(0, 0, 0, 0.12);
+          margin: 0.75em 0;
+        }
+
+        .content table {
+          display: block;
+          max-width: 100%;
+          overflow-x: auto;
+          border-collapse: collapse;
+          margin: 0.5em 0;
+          font-size: 13px;
+        }
+
+        .content th, .content td {
+          border: 1px solid rgba(0, 0, 0, 0.12);
+          padding: 4px 8px;
+          text-align: left;
+        }
+
+        .content th {
+          background: rgba(0, 0, 0, 0.04);
+          font-weight: 600;
+        }
+
+        .content img {
+          max-width: 100%;
+          border-radius: 4px;
+        }
+
+        .content del {
+          opacity: 0.7;
+        }
+
         .content a {
           color: inherit;
           text-decoration: underline;
         }
 
+        .external-icon {
+          display: inline-block;
+          margin-left: 0.15em;
+          font-size: 0.8em;
+          text-decoration: none;
+          opacity: 0.7;
+        }
+
         .content strong {
           font-weight: 600;
         }
@@ -400,7 +1430,8 @@ export class MessageItem extends HTMLElement {
         }
 
         /* Streaming cursor */
-        .streaming .content::after {
+        .streaming .content:empty::after,
+        .streaming .content > :last-child::after {
           content: '\\25AE';
           animation: blink 1s infinite;
           margin-left: 2px;
@@ -411,6 +1442,199 @@ export class MessageItem extends HTMLElement {
           51%, 100% { opacity: 0; }
         }
 
+        /* Agentic workflow steps */
+        .steps {
+          margin-bottom: 8px;
+          font-size: 12px;
+          color: var(--text-color);
+        }
+
+        .steps-summary {
+          cursor: pointer;
+          opacity: 0.7;
+          list-style-position: inside;
+        }
+
+        .steps-summary.running {
+          opacity: 0.9;
+        }
+
+        .steps-list {
+          list-style: none;
+          margin: 6px 0 0;
+          padding: 0 0 0 6px;
+          border-left: 2px solid rgba(0, 0, 0, 0.1);
+        }
+
+        .step {
+          display: flex;
+          gap: 6px;
+          align-items: flex-start;
+          margin: 4px 0;
+        }
+
+        .step-icon {
+          width: 14px;
+          flex-shrink: 0;
+          text-align: center;
+          color: var(--primary-color);
+        }
+
+        .step.failed .step-icon {
+          color: #dc2626;
+        }
+
+        .step-icon.spinner {
+          height: 10px;
+          width: 10px;
+          margin: 2px;
+          border: 2px solid rgba(0, 0, 0, 0.15);
+          border-top-color: var(--primary-color);
+          border-radius: 50%;
+          animation: spin 0.8s linear infinite;
+        }
+
+        @keyframes spin {
+          to { transform: rotate(360deg); }
+        }
+
+        .step-title {
+          font-weight: 500;
+        }
+
+        .step-detail {
+          opacity: 0.7;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        /* Interrupted responses */
+        .interrupted-note {
+          margin-top: 6px;
+          font-size: 12px;
+          font-style: italic;
+          color: var(--text-color);
+          opacity: 0.7;
+        }
+
+        /* Message actions */
+        .actions {
+          display: flex;
+          gap: 2px;
+          align-items: center;
+          margin-top: 4px;
+          padding-left: 40px;
+          font-size: 12px;
+          color: var(--text-color);
+        }
+
+        .actions.user {
+          justify-content: flex-end;
+          padding-left: 0;
+          padding-right: 40px;
+        }
+
+        .action-btn {
+          background: none;
+          border: none;
+          cursor: pointer;
+          padding: 2px 4px;
+          border-radius: 4px;
+          color: inherit;
+          opacity: 0.6;
+          font-size: 14px;
+          line-height: 1;
+          display: flex;
+          align-items: center;
+        }
+
+        .action-btn:hover:not(:disabled) {
+          opacity: 1;
+          background: rgba(0, 0, 0, 0.06);
+        }
+
+        .action-btn:disabled {
+          opacity: 0.25;
+          cursor: default;
+        }
+
+        .action-btn svg {
+          width: 14px;
+          height: 14px;
+          fill: currentColor;
+        }
+
+        .feedback-btn.active,
+        .read-aloud-btn.active {
+          opacity: 1;
+          color: var(--primary-color);
+        }
+
+        .feedback-form {
+          margin-top: 4px;
+          padding-left: 40px;
+          max-width: 80%;
+        }
+
+        .feedback-input {
+          width: 100%;
+          box-sizing: border-box;
+          resize: vertical;
+          border: 1px solid rgba(0, 0, 0, 0.15);
+          border-radius: 8px;
+          padding: 6px 8px;
+          font: inherit;
+          font-size: 13px;
+          color: var(--text-color);
+        }
+
+        .feedback-form .edit-buttons button {
+          background: rgba(0, 0, 0, 0.06);
+        }
+
+        .feedback-form .feedback-send {
+          font-weight: 600;
+        }
+
+        .variant-label {
+          opacity: 0.7;
+          font-variant-numeric: tabular-nums;
+        }
+
+        /* Inline editing */
+        .edit-input {
+          width: 100%;
+          box-sizing: border-box;
+          min-width: 200px;
+          resize: vertical;
+          border: none;
+          border-radius: 8px;
+          padding: 6px 8px;
+          font: inherit;
+          color: var(--text-color);
+        }
+
+        .edit-buttons {
+          display: flex;
+          justify-content: flex-end;
+          gap: 6px;
+          margin-top: 6px;
+        }
+
+        .edit-buttons button {
+          border: none;
+          border-radius: 12px;
+          padding: 4px 10px;
+          font-size: 12px;
+          cursor: pointer;
+          background: rgba(255, 255, 255, 0.9);
+          color: var(--text-color);
+        }
+
+        .edit-buttons .edit-save {
+          font-weight: 600;
+        }
+
         /* Citations */
         .citation {
           color: var(--primary-color);
@@ -418,7 +1642,44 @@ export class MessageItem extends HTMLElement {
           font-size: 0.8em;
         }
 
-        .citation:hover {
+        .citation:hover,
+        .citation:focus-visible {
+          text-decoration: underline;
+        }
+
+        .citation-popover {
+          position: absolute;
+          z-index: 10;
+          min-width: 160px;
+          max-width: 260px;
+          padding: 8px 10px;
+          background: white;
+          color: #1f2937;
+          border: 1px solid rgba(0, 0, 0, 0.1);
+          border-radius: 8px;
+          box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+          font-size: 12px;
+          line-height: 1.4;
+        }
+
+        .popover-name {
+          font-weight: 600;
+          overflow-wrap: anywhere;
+        }
+
+        .popover-page {
+          opacity: 0.7;
+          margin-top: 2px;
+        }
+
+        .popover-link {
+          display: inline-block;
+          margin-top: 6px;
+          color: var(--primary-color);
+          text-decoration: none;
+        }
+
+        .popover-link:hover {
           text-decoration: underline;
         }
 
@@ -442,6 +1703,12 @@ export class MessageItem extends HTMLElement {
           gap: 6px;
           margin-bottom: 4px;
           align-items: flex-start;
+          border-radius: 4px;
+          transition: background-color 0.3s;
+        }
+
+        .reference-item.highlighted {
+          background: rgba(79, 70, 229, 0.15);
         }
 
         .reference-num {
@@ -472,14 +1739,71 @@ export class MessageItem extends HTMLElement {
         .reference-link:hover {
           text-decoration: underline;
         }
+
+        .reference-label {
+          display: flex;
+          align-items: baseline;
+          min-width: 0;
+        }
+
+        .reference-pages {
+          color: var(--text-color);
+          opacity: 0.7;
+          white-space: nowrap;
+        }
+
+        .reference-pages a {
+          color: var(--primary-color);
+          text-decoration: none;
+        }
+
+        .reference-pages a:hover {
+          text-decoration: underline;
+        }
+
+        @media (prefers-reduced-motion: reduce) {
+          .streaming .content:empty::after,
+          .streaming .content > :last-child::after,
+          .step-icon.spinner {
+            animation: none;
+          }
+
+          .reference-item {
+            transition: none;
+          }
+        }
       </style>
 
       <div class="message ${role} ${isStreaming ? 'streaming' : ''}">
-        <div class="avatar">${role === 'user' ? '&#128100;' : '&#129302;'}</div>
+        <div class="avatar" aria-hidden="true">${role === 'user' ? '&#128100;' : role === 'agent' ? '&#127911;' : '&#129302;'}</div>
         <div class="bubble">
+          ${role === 'agent' ? `<div class="agent-name">${this._escapeHtml(this.getAttribute('agent-name') || 'Support agent')}</div>` : ''}
           <div class="content">${this._markdownRenderer.render(this._content)}</div>
+          ${this.hasAttribute('interrupted') ? '<div class="interrupted-note">Response stopped</div>' : ''}
         </div>
       </div>
     `;
+
+    const contentEl = this.shadowRoot.querySelector('.content');
+    contentEl?.addEventListener('click', (e: Event) => {
+      const citation = (e.target as Element).closest('.citation') as HTMLElement | null;
+      if (citation) this._onCitationActivate(citation);
+    });
+    contentEl?.addEventListener('keydown', (e: Event) => {
+      const key = (e as KeyboardEvent).key;
+      const citation = (e.target as Element).closest('.citation') as HTMLElement | null;
+      if (citation && (key === 'Enter' || key === ' ')) {
+        e.preventDefault();
+        this._onCitationActivate(citation);
+      } else if (citation && (key === 'ArrowLeft' || key === 'ArrowRight')) {
+        e.preventDefault();
+        this._focusSiblingCitation(citation, key === 'ArrowLeft' ? -1 : 1);
+      }
+    });
+
+    this._decorateCodeBlocks();
+    this._updateAttachments();
+    this._updateSteps();
+    this._updateActions();
   }
 }
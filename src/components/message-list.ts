@@ -2,16 +2,28 @@ import type { ThemeConfig } from '../types';
 
 /**
  * Message list component.
- * Scrollable container for chat messages.
+ * Scrollable container for chat messages. One message is in the tab
+ * order; the arrow keys, Home and End move between messages.
  */
 export class MessageList extends HTMLElement {
+  /** The message last focused by the user; the newest one if none. */
+  private _activeItem: HTMLElement | null = null;
+
   constructor() {
     super();
     this.attachShadow({ mode: 'open' });
+    this.addEventListener('keydown', this._onKeydown);
+    this.addEventListener('focusin', this._onFocusIn);
   }
 
   connectedCallback(): void {
+    this.setAttribute('role', 'log');
+    // Completed answers are announced by the chat window instead, so screen
+    // readers don't read streamed chunks or a whole restored conversation
+    this.setAttribute('aria-live', 'off');
+    if (!this.hasAttribute('aria-label')) this.setAttribute('aria-label', 'Messages');
     this.render();
+    this.shadowRoot?.querySelector('slot')?.addEventListener('slotchange', () => this._updateTabStops());
   }
 
   /**
@@ -21,7 +33,7 @@ export class MessageList extends HTMLElement {
     const container = this.shadowRoot?.querySelector('.messages');
     if (container) {
       // Use scrollTop assignment for more reliable scrolling
-      if (smooth) {
+      if (smooth && !prefersReducedMotion()) {
         container.scrollTo({
           top: container.scrollHeight,
           behavior: 'smooth'
@@ -52,6 +64,57 @@ export class MessageList extends HTMLElement {
     }
   }
 
+  private _items(): HTMLElement[] {
+    return Array.from(this.children).filter((el): el is HTMLElement => el instanceof HTMLElement);
+  }
+
+  /**
+   * Give the active message `tabindex="0"` and all others `-1`.
+   */
+  private _updateTabStops(): void {
+    const items = this._items();
+    if (this._activeItem && !items.includes(this._activeItem)) {
+      this._activeItem = null;
+    }
+    const active = this._activeItem || items[items.length - 1];
+    items.forEach(item => item.setAttribute('tabindex', item === active ? '0' : '-1'));
+  }
+
+  private _onKeydown = (e: KeyboardEvent): void => {
+    const item = e.target as HTMLElement;
+    // Only when a message itself is focused, not a button or editor in it
+    if (item.parentElement !== this || e.composedPath()[0] !== item) return;
+
+    const items = this._items();
+    const index = items.indexOf(item);
+    let next: HTMLElement | undefined;
+    switch (e.key) {
+      case 'ArrowUp':
+        next = items[index - 1];
+        break;
+      case 'ArrowDown':
+        next = items[index + 1];
+        break;
+      case 'Home':
+        next = items[0];
+        break;
+      case 'End':
+        next = items[items.length - 1];
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    next?.focus();
+  };
+
+  private _onFocusIn = (e: FocusEvent): void => {
+    const item = e.target as HTMLElement;
+    if (item.parentElement !== this || item === this._activeItem) return;
+    this._activeItem = item;
+    this._updateTabStops();
+  };
+
   private render(): void {
     if (!this.shadowRoot) return;
 
@@ -104,3 +167,7 @@ export class MessageList extends HTMLElement {
     `;
   }
 }
+
+function prefersReducedMotion(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
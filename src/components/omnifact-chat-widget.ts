@@ -1,8 +1,44 @@
 import { ConfigManager } from '../utils/config-manager';
 import { StorageService } from '../services/storage-service';
+import { TabSync } from '../services/tab-sync';
+import { WebSocketHandoffTransport, PollingHandoffTransport, MockHandoffTransport } from '../services/handoff-transports';
+import type { TabSyncMessage } from '../services/tab-sync';
+import { WebSpeechRecognizer, SpeechReader } from '../services/speech';
 import { ApiClient } from '../services/api-client';
-import { SSEHandler } from '../services/sse-handler';
-import type { WidgetConfig, ChatMessage, ApiMessage, InlineSource, LegacyReferences } from '../types';
+import { AuthProvider } from '../services/auth-provider';
+import { SSEHandler, StreamInterruptedError } from '../services/sse-handler';
+import { RetryPolicy } from '../utils/retry-policy';
+import { UrlSanitizer } from '../utils/url-sanitizer';
+import { Transcript } from '../utils/transcript';
+import { AttachmentPolicy } from '../utils/attachment-policy';
+import { SpeechText } from '../utils/speech-text';
+import { StreamingMarkdownRenderer } from '../utils/streaming-markdown-renderer';
+import type { HighlightFunction } from '../utils/code-highlighter';
+import type {
+  WidgetConfig,
+  ChatMessage,
+  ApiMessage,
+  ApiContentPart,
+  Attachment,
+  InlineSource,
+  LegacyReferences,
+  StreamCallbacks,
+  StreamResult,
+  OmnifactEventMap,
+  ApiInterceptor,
+  TokenProvider,
+  AgentStep,
+  MessageFeedback,
+  ConversationSummary,
+  StorageAdapter,
+  TranscriptData,
+  TranscriptFormat,
+  HandoffTransport,
+  HandoffStatus,
+  HandoffRequest,
+  AgentMessage,
+  SpeechRecognizer
+} from '../types';
 import type { ChatBubble } from './chat-bubble';
 import type { ChatWindow } from './chat-window';
 import type { MessageList } from './message-list';
@@ -10,6 +46,41 @@ import type { ChatInput } from './chat-input';
 import type { TypingIndicator } from './typing-indicator';
 import type { MessageItem } from './message-item';
 
+/**
+ * Variant bookkeeping carried over to the message that replaces a branch.
+ */
+type MessageBranch = Pick<ChatMessage, 'variants' | 'variantIndex'>;
+
+/**
+ * An answer that another tab is streaming.
+ */
+interface RemoteStream {
+  sessionId: string | null;
+  /** Partial answer shown in this tab, once the first chunk arrived. */
+  message: ChatMessage | null;
+  element: MessageItem | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A running handoff to a human agent.
+ */
+interface Handoff {
+  transport: HandoffTransport;
+  status: HandoffStatus;
+  agentName?: string;
+  reason?: string;
+}
+
+/**
+ * A message being read aloud.
+ */
+interface ReadAloud {
+  message: ChatMessage;
+  /** Length of the markdown read so far (grows while the answer streams). */
+  offset: number;
+}
+
 interface WidgetState {
   isOpen: boolean;
   messages: ChatMessage[];
@@ -22,6 +93,9 @@ interface WidgetState {
  * Orchestrates all child components and manages state.
  */
 export class OmnifactChatWidget extends HTMLElement {
+  /** Give up on another tab's answer after this long without updates (ms). */
+  static readonly REMOTE_STREAM_TIMEOUT = 30000;
+
   private _state: WidgetState = {
     isOpen: false,
     messages: [],
@@ -31,8 +105,33 @@ export class OmnifactChatWidget extends HTMLElement {
 
   private _config: WidgetConfig | null = null;
   private _storage: StorageService | null = null;
+  private _storageAdapter: StorageAdapter | null = null;
+  private _sessionReady: Promise<void> = Promise.resolve();
+  private _tabSync: TabSync | null = null;
+  private _remoteStream: RemoteStream | null = null;
+  private _handoffTransport: HandoffTransport | null = null;
+  private _handoff: Handoff | null = null;
+  private _pendingHandoff: HandoffRequest | null = null;
+  private _speechRecognizer: SpeechRecognizer | null = null;
+  private _speechReader = new SpeechReader();
+  private _readAloud: ReadAloud | null = null;
+  /** Streamed answer that automatic reading was started for (not restarted once stopped). */
+  private _readAlongMessage: ChatMessage | null = null;
   private _apiClient: ApiClient | null = null;
   private _sseHandler = new SSEHandler();
+  private _retryPolicy = new RetryPolicy();
+  private _urlSanitizer = new UrlSanitizer();
+  private _abortController: AbortController | null = null;
+  /**
+   * File contents of attachments sent from this page, by attachment id
+   * (never stored). Kept while the conversation references them so an
+   * edited or regenerated message can send them again.
+   */
+  private _attachmentData = new Map<string, string>();
+  private _interceptors: ApiInterceptor[] = [];
+  private _tokenProvider: TokenProvider | null = null;
+  private _highlighter: HighlightFunction | null = null;
+  private _scrollFrame: number | null = null;
 
   // Component references
   private _bubble: ChatBubble | null = null;
@@ -51,6 +150,7 @@ export class OmnifactChatWidget extends HTMLElement {
       'endpoint-url',
       'endpoint-id',
       'api-key',
+      'token-endpoint',
       'position',
       'title',
       'welcome-message',
@@ -61,6 +161,31 @@ export class OmnifactChatWidget extends HTMLElement {
       'enable-inline-sources',
       'enable-agentic-workflow',
       'hide-sources',
+      'streaming',
+      'max-retries',
+      'retry-delay',
+      'allowed-link-protocols',
+      'allowed-link-domains',
+      'link-redirect-url',
+      'document-url-template',
+      'enable-feedback',
+      'feedback-url',
+      'storage',
+      'enable-tab-sync',
+      'sync-open-state',
+      'enable-handoff',
+      'handoff-url',
+      'enable-attachments',
+      'allowed-attachment-types',
+      'max-attachment-size',
+      'max-attachments',
+      'attachment-upload-url',
+      'enable-voice-input',
+      'enable-read-aloud',
+      'auto-read-aloud',
+      'speech-language',
+      'speech-voice',
+      'speech-rate',
       'debug'
     ];
   }
@@ -70,11 +195,17 @@ export class OmnifactChatWidget extends HTMLElement {
     const configManager = new ConfigManager(this);
     this._config = configManager.load();
 
-    // Initialize storage
-    this._storage = new StorageService(this._config.storageKey);
+    // Initialize storage and sync with other tabs
+    this._storage = this._createStorage();
+    this._tabSync = this._createTabSync();
 
-    // Initialize API client
+    // Initialize API client and retry policy
     this._apiClient = new ApiClient(this._config);
+    this._interceptors.forEach(i => this._apiClient?.addInterceptor(i));
+    this._apiClient.setAuthProvider(this._createAuthProvider());
+    this._retryPolicy = this._createRetryPolicy();
+    this._urlSanitizer = this._createUrlSanitizer();
+    this._speechReader = this._createSpeechReader();
 
     // Set debug mode on SSE handler and global flag
     this._sseHandler.setDebug(this._config.debug);
@@ -82,9 +213,6 @@ export class OmnifactChatWidget extends HTMLElement {
       window.omnifactDebug = true;
     }
 
-    // Restore state from storage
-    this._initializeSession();
-
     // Render the widget
     this.render();
 
@@ -93,14 +221,25 @@ export class OmnifactChatWidget extends HTMLElement {
 
     // Apply theme
     this._applyTheme();
+    this._updateHandoffAvailability();
+    this._updateAttachmentPolicy();
+    this._updateVoiceInput();
 
-    // Render messages
-    this._renderMessages();
+    // Restore state from storage and render messages
+    this._sessionReady = this._restoreSession();
 
     // Setup event listeners
     this._setupEventListeners();
   }
 
+  disconnectedCallback(): void {
+    this.endHandoff();
+    this.stopSpeaking();
+    this._tabSync?.close();
+    this._tabSync = null;
+    this._clearRemoteStream();
+  }
+
   attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
     if (!this.isConnected || oldValue === newValue) return;
 
@@ -108,10 +247,11 @@ export class OmnifactChatWidget extends HTMLElement {
     const configManager = new ConfigManager(this);
     this._config = configManager.load();
 
-    // Update API client
+    // Update API client and retry policy
     if (this._apiClient) {
       this._apiClient.updateConfig(this._config);
     }
+    this._retryPolicy = this._createRetryPolicy();
 
     // Update theme
     this._applyTheme();
@@ -125,6 +265,53 @@ export class OmnifactChatWidget extends HTMLElement {
       this._updatePosition();
     }
 
+    if (name === 'token-endpoint') {
+      this._apiClient?.setAuthProvider(this._createAuthProvider());
+    }
+
+    if (name === 'allowed-link-protocols' || name === 'allowed-link-domains' || name === 'link-redirect-url') {
+      this._urlSanitizer = this._createUrlSanitizer();
+      if (!this._isBusy()) this._renderMessages();
+    }
+
+    if (name === 'document-url-template' && !this._isBusy()) {
+      this._renderMessages();
+    }
+
+    if (name === 'enable-feedback') {
+      this._updateMessageActions();
+    }
+
+    if (name === 'storage' && !this._storageAdapter && this._config?.enablePersistence) {
+      this._resetStorage();
+    }
+
+    if (name === 'enable-tab-sync') {
+      this._resetTabSync();
+    }
+
+    if (name === 'enable-handoff' || name === 'handoff-url') {
+      this._updateHandoffAvailability();
+    }
+
+    if (name === 'enable-attachments' || name === 'allowed-attachment-types' ||
+        name === 'max-attachment-size' || name === 'max-attachments') {
+      this._updateAttachmentPolicy();
+    }
+
+    if (name === 'enable-voice-input' || name === 'speech-language') {
+      this._updateVoiceInput();
+    }
+
+    if (name === 'speech-language' || name === 'speech-voice' || name === 'speech-rate') {
+      this.stopSpeaking();
+      this._speechReader = this._createSpeechReader();
+    }
+
+    if (name === 'enable-read-aloud' || name === 'auto-read-aloud') {
+      this._updateMessageActions();
+    }
+
     // Update debug mode on SSE handler
     if (name === 'debug' && this._sseHandler && this._config) {
       this._sseHandler.setDebug(this._config.debug);
@@ -132,37 +319,110 @@ export class OmnifactChatWidget extends HTMLElement {
   }
 
   /**
-   * Initialize or restore the chat session.
+   * Create the storage service. A host-provided adapter takes precedence;
+   * without persistence, history is only kept in memory.
    */
-  private _initializeSession(): void {
-    if (!this._config || !this._storage) return;
+  private _createStorage(): StorageService {
+    const config = this._config || ConfigManager.defaults;
+    const adapter = this._storageAdapter ||
+      StorageService.createAdapter(config.enablePersistence ? config.storage : 'memory', config.storageKey);
+    return new StorageService(config.storageKey, adapter);
+  }
 
-    if (this._config.enablePersistence) {
-      const stored = this._storage.getState();
-      this._state.sessionId = stored.sessionId;
-      this._state.messages = stored.messages || [];
-    } else {
-      this._state.sessionId = this._generateSessionId();
-      this._state.messages = [];
-    }
+  /**
+   * Create the channel to other tabs. Only used when the history is shared
+   * between tabs (localStorage, IndexedDB or a custom adapter).
+   */
+  private _createTabSync(): TabSync | null {
+    const config = this._config || ConfigManager.defaults;
+    if (!config.enableTabSync) return null;
 
-    // Add welcome message if no messages exist
-    if (this._state.messages.length === 0 && this._config.welcomeMessage) {
-      this._state.messages.push({
-        id: 'welcome',
-        role: 'assistant',
-        content: this._config.welcomeMessage,
-        timestamp: Date.now(),
-        isWelcome: true
-      });
+    const shared = !!this._storageAdapter ||
+      (config.enablePersistence && (config.storage === 'local' || config.storage === 'indexeddb'));
+    if (!shared) return null;
+
+    return new TabSync(config.storageKey, message => this._onTabSyncMessage(message));
+  }
+
+  private _resetTabSync(): void {
+    this._tabSync?.close();
+    this._clearRemoteStream();
+    this._tabSync = this._createTabSync();
+  }
+
+  /**
+   * Restore the active conversation from storage.
+   */
+  private async _restoreSession(): Promise<void> {
+    if (!this._storage) return;
+    const stored = await this._storage.getState();
+    this._setConversation(stored.sessionId, stored.messages || []);
+  }
+
+  /**
+   * Create the auth provider from the host callback or the token endpoint.
+   */
+  private _createAuthProvider(): AuthProvider | null {
+    if (this._tokenProvider) {
+      return new AuthProvider(this._tokenProvider);
+    }
+    if (this._config?.tokenEndpoint) {
+      return AuthProvider.fromEndpoint(this._config.tokenEndpoint);
     }
+    return null;
   }
 
-  private _generateSessionId(): string {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-      return 'session-' + crypto.randomUUID();
+  private _createRetryPolicy(): RetryPolicy {
+    return new RetryPolicy({
+      maxRetries: this._config?.maxRetries,
+      baseDelay: this._config?.retryDelay
+    });
+  }
+
+  private _createUrlSanitizer(): UrlSanitizer {
+    return new UrlSanitizer({
+      allowedProtocols: this._config?.allowedLinkProtocols,
+      allowedDomains: this._config?.allowedLinkDomains,
+      redirectUrl: this._config?.linkRedirectUrl
+    });
+  }
+
+  /**
+   * Offer attachments when enabled. Not while talking to a human agent,
+   * as handoff transports only carry text.
+   */
+  private _updateAttachmentPolicy(): void {
+    if (!this._chatInput || !this._config) return;
+    this._chatInput.attachmentPolicy = this._config.enableAttachments && !this._handoff
+      ? new AttachmentPolicy({
+        allowedTypes: this._config.allowedAttachmentTypes,
+        maxSize: this._config.maxAttachmentSize,
+        maxCount: this._config.maxAttachments
+      })
+      : null;
+  }
+
+  /**
+   * Offer dictation when enabled, through the host's recognizer or the
+   * browser's Web Speech API.
+   */
+  private _updateVoiceInput(): void {
+    if (!this._chatInput || !this._config) return;
+
+    let recognizer: SpeechRecognizer | null = null;
+    if (this._config.enableVoiceInput) {
+      recognizer = this._speechRecognizer ||
+        (WebSpeechRecognizer.isSupported() ? new WebSpeechRecognizer(this._config.speechLanguage) : null);
     }
-    return 'session-' + Math.random().toString(36).substring(2, 11);
+    this._chatInput.speechRecognizer = recognizer;
+  }
+
+  private _createSpeechReader(): SpeechReader {
+    return new SpeechReader({
+      voice: this._config?.speechVoice,
+      rate: this._config?.speechRate,
+      lang: this._config?.speechLanguage
+    });
   }
 
   private _setupComponentReferences(): void {
@@ -235,14 +495,84 @@ export class OmnifactChatWidget extends HTMLElement {
       this._closeChat();
     });
 
-    // Clear history
-    this._window?.addEventListener('clear', () => {
-      this.clearHistory();
+    // Conversation list
+    this._window?.addEventListener('new-conversation', () => {
+      this.newConversation();
+    });
+
+    this._window?.addEventListener('switch-conversation', ((e: CustomEvent<{ id: string }>) => {
+      this.switchConversation(e.detail.id);
+    }) as EventListener);
+
+    this._window?.addEventListener('rename-conversation', ((e: CustomEvent<{ id: string; title: string }>) => {
+      this._storage?.renameConversation(e.detail.id, e.detail.title).then(() => {
+        this._tabSync?.post({ type: 'conversations' });
+        this._updateConversationList();
+      });
+    }) as EventListener);
+
+    this._window?.addEventListener('delete-conversation', ((e: CustomEvent<{ id: string }>) => {
+      this._deleteConversation(e.detail.id);
+    }) as EventListener);
+
+    this._window?.addEventListener('export', ((e: CustomEvent<{ format: TranscriptFormat }>) => {
+      this._downloadTranscript(e.detail.format);
+    }) as EventListener);
+
+    // Handoff to a human agent
+    this._window?.addEventListener('handoff-request', () => {
+      this.startHandoff();
+    });
+
+    this._window?.addEventListener('handoff-end', () => {
+      this.endHandoff();
     });
 
     // Send message
-    this._chatInput?.addEventListener('send', ((e: CustomEvent<{ message: string }>) => {
-      this._sendMessage(e.detail.message);
+    this._chatInput?.addEventListener('send', ((e: CustomEvent<{ message: string; attachments: Attachment[] }>) => {
+      this._sendMessage(e.detail.message, {}, e.detail.attachments);
+    }) as EventListener);
+
+    // Stop streaming response
+    this._chatInput?.addEventListener('stop', () => {
+      this.stop();
+    });
+
+    // Don't dictate what is being read aloud
+    this._chatInput?.addEventListener('dictation-start', () => {
+      this.stopSpeaking();
+    });
+
+    // Message actions
+    this._messageList?.addEventListener('regenerate', (e: Event) => {
+      this._regenerate(this._indexOfMessageElement(e.target));
+    });
+
+    this._messageList?.addEventListener('edit', ((e: CustomEvent<{ content: string }>) => {
+      this._editMessage(this._indexOfMessageElement(e.target), e.detail.content);
+    }) as EventListener);
+
+    this._messageList?.addEventListener('read-aloud', (e: Event) => {
+      this._toggleReadAloud(this._indexOfMessageElement(e.target));
+    });
+
+    this._messageList?.addEventListener('switch-variant', ((e: CustomEvent<{ index: number }>) => {
+      this._switchVariant(this._indexOfMessageElement(e.target), e.detail.index);
+    }) as EventListener);
+
+    this._messageList?.addEventListener('feedback', ((e: CustomEvent<{ rating: MessageFeedback['rating']; comment: string }>) => {
+      this._submitFeedback(this._indexOfMessageElement(e.target), e.detail.rating, e.detail.comment);
+    }) as EventListener);
+
+    // Inline citations: let the host open its own viewer by cancelling the event
+    this._messageList?.addEventListener('citation-click', ((e: CustomEvent<{ source: InlineSource; url: string | null }>) => {
+      const message = this._state.messages[this._indexOfMessageElement(e.target)];
+      const proceed = this._emit('omnifact:citation-click', {
+        messageId: message ? message.id : '',
+        source: e.detail.source,
+        url: e.detail.url
+      }, true);
+      if (!proceed) e.preventDefault();
     }) as EventListener);
   }
 
@@ -250,24 +580,51 @@ export class OmnifactChatWidget extends HTMLElement {
    * Toggle the chat window open/closed.
    */
   private _toggleChat(): void {
-    this._state.isOpen = !this._state.isOpen;
-    this._updateChatVisibility();
+    this._setOpen(!this._state.isOpen);
   }
 
   /**
    * Open the chat window.
    */
   open(): void {
-    this._state.isOpen = true;
-    this._updateChatVisibility();
+    this._setOpen(true);
   }
 
   /**
    * Close the chat window.
    */
   private _closeChat(): void {
-    this._state.isOpen = false;
+    this._setOpen(false);
+  }
+
+  /**
+   * Update the open state and notify the host page if it changed.
+   * With `sync-open-state`, other tabs follow unless `broadcast` is false.
+   */
+  private _setOpen(isOpen: boolean, broadcast = true): void {
+    const changed = this._state.isOpen !== isOpen;
+    this._state.isOpen = isOpen;
     this._updateChatVisibility();
+
+    if (changed) {
+      this._emit(isOpen ? 'omnifact:open' : 'omnifact:close', { sessionId: this._state.sessionId });
+      if (broadcast && this._config?.syncOpenState) {
+        this._tabSync?.post({ type: 'open', isOpen });
+      }
+    }
+  }
+
+  /**
+   * Dispatch a typed event from the host element.
+   * Returns false if a cancelable event was cancelled.
+   */
+  private _emit<K extends keyof OmnifactEventMap>(type: K, detail: OmnifactEventMap[K]['detail'], cancelable = false): boolean {
+    return this.dispatchEvent(new CustomEvent(type, {
+      bubbles: true,
+      composed: true,
+      cancelable,
+      detail
+    }));
   }
 
   close(): void {
@@ -286,7 +643,11 @@ export class OmnifactChatWidget extends HTMLElement {
         this._messageList?.scrollToBottom(false);
       }, 100);
     } else {
+      // Don't leave keyboard focus in the closed window
+      const active = this.shadowRoot?.activeElement || null;
+      const hadFocus = !!this._window && this._window.contains(active);
       this._window?.setAttribute('hidden', '');
+      if (hadFocus) this._bubble?.focus();
     }
 
     if (this._bubble) this._bubble.isOpen = isOpen;
@@ -307,6 +668,8 @@ export class OmnifactChatWidget extends HTMLElement {
       this._renderMessage(msg);
     }
 
+    this._updateMessageActions();
+
     // Scroll to bottom after messages are rendered (wait for next frame)
     setTimeout(() => {
       this._messageList?.scrollToBottom(false);
@@ -320,18 +683,27 @@ export class OmnifactChatWidget extends HTMLElement {
     if (!this._messageList) return null;
 
     const messageEl = document.createElement('omnifact-message-item') as MessageItem;
-    messageEl.setAttribute('role', msg.role);
+    messageEl.setAttribute('sender', msg.role);
+    if (msg.agentName) {
+      messageEl.setAttribute('agent-name', msg.agentName);
+    }
     messageEl.setAttribute('data-id', msg.id);
     messageEl.setAttribute('data-content', msg.content || '');
     if (isStreaming) {
       messageEl.setAttribute('streaming', '');
     }
+    if (msg.isInterrupted) {
+      messageEl.setAttribute('interrupted', '');
+    }
 
     // Append to DOM
     this._messageList.appendChild(messageEl);
 
     // Set content and references after a microtask to ensure element is fully initialized
     Promise.resolve().then(() => {
+      messageEl.urlSanitizer = this._urlSanitizer;
+      messageEl.highlighter = this._highlighter;
+      messageEl.documentUrlTemplate = this._config?.documentUrlTemplate || '';
       // Set hideSources flag first
       if (this._config?.hideSources) {
         messageEl.hideSources = true;
@@ -343,6 +715,12 @@ export class OmnifactChatWidget extends HTMLElement {
       if (msg.references) {
         messageEl.references = msg.references;
       }
+      if (msg.steps) {
+        messageEl.steps = msg.steps;
+      }
+      if (msg.attachments) {
+        messageEl.attachments = msg.attachments;
+      }
       messageEl.content = msg.content;
     });
 
@@ -352,117 +730,190 @@ export class OmnifactChatWidget extends HTMLElement {
   /**
    * Send a message to the assistant.
    */
-  private async _sendMessage(text: string): Promise<void> {
-    if (!text.trim() || this._state.isTyping || !this._apiClient) return;
+  private async _sendMessage(text: string, branch: MessageBranch = {}, attachments: Attachment[] = []): Promise<void> {
+    // Don't add to a conversation that is still being restored
+    await this._sessionReady;
+    if ((!text.trim() && attachments.length === 0) || this._isBusy() || !this._apiClient) return;
+
+    // File contents are only kept in memory, not stored with the message
+    this._pruneAttachmentData();
+    const stored = attachments.map(({ data, ...attachment }) => {
+      if (data !== undefined) this._attachmentData.set(attachment.id, data);
+      return attachment;
+    });
 
     // Add user message
     const userMessage: ChatMessage = {
       id: this._generateMessageId(),
       role: 'user',
       content: text.trim(),
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(stored.length > 0 ? { attachments: stored } : {}),
+      ...branch
     };
 
     this._state.messages.push(userMessage);
     this._renderMessage(userMessage);
+    this._emit('omnifact:message-sent', { message: userMessage });
+
+    if (this._handoff) {
+      await this._sendToAgent(this._handoff, userMessage);
+    } else {
+      await this._streamResponse();
+    }
+  }
+
+  /**
+   * Forget file contents that no message of the conversation (or of its
+   * variants) refers to anymore.
+   */
+  private _pruneAttachmentData(): void {
+    const ids = new Set<string>();
+    const collect = (messages: ChatMessage[]): void => {
+      for (const message of messages) {
+        message.attachments?.forEach(attachment => ids.add(attachment.id));
+        message.variants?.forEach(collect);
+      }
+    };
+    collect(this._state.messages);
 
-    // Disable input and show typing
-    if (this._chatInput) this._chatInput.disabled = true;
+    for (const id of [...this._attachmentData.keys()]) {
+      if (!ids.has(id)) this._attachmentData.delete(id);
+    }
+  }
+
+  /**
+   * Request an assistant response for the current history.
+   * The branch (if any) is attached to the new assistant message.
+   */
+  private async _streamResponse(branch: MessageBranch = {}): Promise<void> {
+    if (this._isBusy() || !this._apiClient) return;
+
+    // Disable input, offer stop and show typing
+    const abortController = new AbortController();
+    this._abortController = abortController;
+    if (this._chatInput) {
+      this._chatInput.disabled = true;
+      this._chatInput.streaming = true;
+    }
     this._state.isTyping = true;
     this._typingIndicator?.show();
+    this._window?.announce('Assistant is typing…');
+
+    // Other tabs show the question and wait for this tab's answer
+    this._tabSync?.post({
+      type: 'state',
+      sessionId: this._state.sessionId,
+      messages: this._state.messages.slice(),
+      streaming: true
+    });
 
     // Scroll to bottom after typing indicator is shown
     setTimeout(() => {
       this._messageList?.scrollToBottom();
     }, 50);
 
-    // Prepare messages for API (exclude welcome message metadata)
-    const apiMessages: ApiMessage[] = this._state.messages
-      .filter(m => !m.isWelcome)
-      .map(m => ({
-        role: m.role,
-        content: m.content
-      }));
-
-    try {
-      // Create placeholder for assistant message
-      const assistantMessage: ChatMessage = {
-        id: this._generateMessageId(),
-        role: 'assistant',
-        content: '',
-        timestamp: Date.now()
-      };
-
-      // Start streaming request
-      const response = await this._apiClient.sendMessage(apiMessages, true);
-
-      // Hide typing indicator once we start receiving
-      this._typingIndicator?.hide();
-
-      // Add placeholder message to state
-      this._state.messages.push(assistantMessage);
-
-      // Render streaming message
-      const messageEl = this._renderMessage(assistantMessage, true);
+    // Detects a conversation switch while the request is in flight
+    const lastMessage = this._state.messages[this._state.messages.length - 1];
 
-      // Set hideSources immediately for streaming messages
-      if (messageEl && this._config?.hideSources) {
-        messageEl.hideSources = true;
-      }
+    // Create placeholder for assistant message
+    const assistantMessage: ChatMessage = {
+      id: this._generateMessageId(),
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      ...branch
+    };
+    let messageEl: MessageItem | null = null;
 
-      // Track if we should auto-scroll
-      const shouldScroll = true;
+    // Partial result of a dropped stream that can be resumed via Last-Event-ID
+    let resumeFrom: StreamResult | undefined;
+    let attempt = 0;
 
-      // Process the stream
-      await this._sseHandler.processStream(response, {
-        onChunk: (chunk: string, accumulated: string, messageId: string | null) => {
-          assistantMessage.content = accumulated;
-          if (messageId) assistantMessage.id = messageId;
-          messageEl?.appendContent(chunk);
+    try {
+      await this._uploadAttachments(abortController.signal);
+
+      // Prepare messages for API (exclude welcome message metadata)
+      const history = this._state.messages.filter(m => !m.isWelcome);
+      const apiMessages: ApiMessage[] = history.map((m, i) => ({
+        // Replies from a human agent are part of the answer history
+        role: m.role === 'user' ? 'user' : 'assistant',
+        content: this._apiContent(m, i === history.length - 1)
+      }));
 
-          // Auto-scroll if user is near bottom
-          if (shouldScroll && this._messageList?.isNearBottom()) {
-            this._messageList.scrollToBottom();
+      while (true) {
+        try {
+          const requestOptions = {
+            signal: abortController.signal,
+            lastEventId: resumeFrom?.lastEventId
+          };
+
+          if (this._config?.streaming === false) {
+            // Non-streaming mode: the whole answer arrives as one JSON response
+            const data = await this._apiClient.sendMessage(apiMessages, false, requestOptions);
+            if (!messageEl) messageEl = this._showAssistantPlaceholder(assistantMessage);
+            this._sseHandler.processJson(data, this._createStreamCallbacks(assistantMessage, messageEl));
+          } else {
+            // Start streaming request
+            const response = await this._apiClient.sendMessage(apiMessages, true, requestOptions);
+            if (!messageEl) messageEl = this._showAssistantPlaceholder(assistantMessage);
+
+            // Process the stream (falls back to JSON if the response is not SSE)
+            await this._sseHandler.processResponse(
+              response,
+              this._createStreamCallbacks(assistantMessage, messageEl),
+              abortController.signal,
+              resumeFrom
+            );
           }
-        },
-        onReferences: (refs: LegacyReferences) => {
-          // Store references in message and update UI
-          assistantMessage.references = refs;
-          if (messageEl) messageEl.references = refs;
-        },
-        onSource: (source: InlineSource) => {
-          // Accumulate sources
-          if (!assistantMessage.sources) {
-            assistantMessage.sources = [];
+          break;
+        } catch (error) {
+          if (abortController.signal.aborted || !this._retryPolicy.shouldRetry(error, attempt)) {
+            throw error;
           }
-          assistantMessage.sources.push(source);
-          if (messageEl) messageEl.sources = assistantMessage.sources;
-        },
-        onComplete: (result) => {
-          assistantMessage.content = result.content;
-          if (result.messageId) assistantMessage.id = result.messageId;
-          if (result.references) {
-            assistantMessage.references = result.references;
-            if (messageEl) messageEl.references = result.references;
-          }
-          if (result.sources) {
-            assistantMessage.sources = result.sources;
-            if (messageEl) messageEl.sources = result.sources;
-          }
-          messageEl?.removeAttribute('streaming');
 
-          // Final content update with citations processed
-          if (messageEl) messageEl.content = result.content;
+          if (error instanceof StreamInterruptedError && error.partial.lastEventId) {
+            // Continue the same message from where the stream dropped
+            resumeFrom = error.partial;
+          } else if (resumeFrom === undefined && messageEl) {
+            // Stream cannot be resumed - start the answer over
+            assistantMessage.content = '';
+            delete assistantMessage.sources;
+            delete assistantMessage.references;
+            delete assistantMessage.steps;
+            messageEl.sources = null;
+            messageEl.references = null;
+            messageEl.steps = null;
+            messageEl.content = '';
+          }
 
-          // Save to storage
-          this._saveState();
-        },
-        onError: (error: Error) => {
-          console.error('[OmnifactWidget] Stream error:', error);
+          const delay = this._retryPolicy.getDelay(error, attempt);
+          attempt++;
+          if (this._config?.debug) {
+            console.log(`[OmnifactWidget] Retrying in ${Math.round(delay)}ms (attempt ${attempt}):`, error);
+          }
+          await this._retryPolicy.wait(delay, abortController.signal);
+          if (abortController.signal.aborted) throw error;
         }
-      });
+      }
     } catch (error) {
+      const isPlaceholderShown = this._state.messages.includes(assistantMessage);
+
+      if (abortController.signal.aborted) {
+        // Stopped before the response arrived - keep earlier versions reachable
+        if (!isPlaceholderShown && branch.variants && this._state.messages.includes(lastMessage)) {
+          assistantMessage.isInterrupted = true;
+          this._state.messages.push(assistantMessage);
+          this._renderMessage(assistantMessage);
+        }
+        return;
+      }
+
       console.error('[OmnifactWidget] Failed to send message:', error);
+      this._emit('omnifact:error', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      (messageEl as MessageItem | null)?.removeAttribute('streaming');
 
       // Show error message
       const errorMessage: ChatMessage = {
@@ -470,64 +921,1106 @@ export class OmnifactChatWidget extends HTMLElement {
         role: 'assistant',
         content: 'Sorry, I encountered an error. Please try again.',
         timestamp: Date.now(),
-        isError: true
+        isError: true,
+        ...(isPlaceholderShown ? {} : branch)
       };
 
       this._state.messages.push(errorMessage);
       this._renderMessage(errorMessage);
+      this._announce(errorMessage);
     } finally {
       // Re-enable input
-      if (this._chatInput) this._chatInput.disabled = false;
+      this._abortController = null;
+      if (this._chatInput) {
+        this._chatInput.disabled = false;
+        this._chatInput.streaming = false;
+      }
       this._state.isTyping = false;
       this._typingIndicator?.hide();
       this._chatInput?.focus();
+      this._updateMessageActions();
+
+      // Save state (including user message), unless the conversation was
+      // cleared or switched meanwhile - that would store it again
+      if (this._state.messages.includes(lastMessage)) {
+        this._saveState();
+      }
+
+      // Read the rest of the answer, or stop reading a stopped one
+      if (!abortController.signal.aborted) {
+        this._readAlong(assistantMessage, true);
+      } else if (this._readAloud?.message === assistantMessage) {
+        this.stopSpeaking();
+      }
 
-      // Save state (including user message)
-      this._saveState();
+      // The assistant asked to hand over to a human
+      const handoff = this._pendingHandoff;
+      this._pendingHandoff = null;
+      if (handoff && this._config?.enableHandoff && !abortController.signal.aborted) {
+        this.startHandoff(handoff.reason);
+      }
     }
   }
 
-  private _generateMessageId(): string {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-      return 'msg-' + crypto.randomUUID();
+  /**
+   * Upload the files of the message being answered, when an upload URL is
+   * configured. The attachments keep the returned reference instead.
+   */
+  private async _uploadAttachments(signal: AbortSignal): Promise<void> {
+    if (!this._config?.attachmentUploadUrl || !this._apiClient) return;
+
+    const message = this._state.messages[this._state.messages.length - 1];
+    for (const attachment of message?.attachments || []) {
+      const data = this._attachmentData.get(attachment.id);
+      if (attachment.url || data === undefined) continue;
+      attachment.url = await this._apiClient.uploadAttachment({ ...attachment, data }, signal);
+      this._attachmentData.delete(attachment.id);
     }
-    return 'msg-' + Math.random().toString(36).substring(2, 11);
   }
 
   /**
-   * Save current state to storage.
+   * Message content for the API: plain text, or text and attachment
+   * parts when files are attached. File contents are only included for
+   * the message being answered (`current`); files of earlier messages
+   * only if they were uploaded.
    */
-  private _saveState(): void {
-    if (this._config?.enablePersistence && this._storage) {
-      this._storage.saveState({
-        sessionId: this._state.sessionId,
-        messages: this._state.messages
+  private _apiContent(message: ChatMessage, current: boolean): string | ApiContentPart[] {
+    const parts: ApiContentPart[] = [];
+    for (const attachment of message.attachments || []) {
+      const data = current ? this._attachmentData.get(attachment.id) : undefined;
+      if (!attachment.url && data === undefined) continue;
+      parts.push({
+        type: attachment.mimeType.startsWith('image/') ? 'image' : 'file',
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        ...(attachment.url ? { url: attachment.url } : { data })
       });
     }
+    if (parts.length === 0) return message.content;
+
+    if (message.content) parts.unshift({ type: 'text', text: message.content });
+    return parts;
   }
 
   /**
-   * Clear chat history and start fresh.
+   * Regenerate the assistant response at the given index (the last message).
+   * The previous answer is kept as a variant.
    */
-  clearHistory(): void {
-    this._state.messages = [];
+  private _regenerate(index: number): void {
+    const msg = this._state.messages[index];
+    if (this._isBusy() || this._handoff || !msg || msg.role !== 'assistant' || msg.isWelcome) return;
+    if (index !== this._state.messages.length - 1) return;
 
-    // Add welcome message
-    if (this._config?.welcomeMessage) {
-      this._state.messages.push({
-        id: 'welcome',
-        role: 'assistant',
-        content: this._config.welcomeMessage,
-        timestamp: Date.now(),
-        isWelcome: true
+    const branch = this._branchAt(index);
+    this._renderMessages();
+    this._streamResponse(branch);
+  }
+
+  /**
+   * Replace the user message at the given index and re-send from there.
+   * The previous prompt and everything after it are kept as a variant.
+   */
+  private _editMessage(index: number, text: string): void {
+    const msg = this._state.messages[index];
+    if (this._isBusy() || this._handoff || !text.trim() || !msg || msg.role !== 'user') return;
+
+    // Files whose contents are gone (e.g. after a reload) can't be sent again
+    const attachments = msg.attachments?.map(attachment =>
+      attachment.url || this._attachmentData.has(attachment.id) ? attachment : { ...attachment, unavailable: true }
+    );
+
+    const branch = this._branchAt(index);
+    this._renderMessages();
+    this._sendMessage(text, branch, attachments);
+  }
+
+  /**
+   * Switch the conversation at the given index to another variant.
+   */
+  private _switchVariant(index: number, target: number): void {
+    const head = this._state.messages[index];
+    if (this._isBusy() || !head?.variants) return;
+
+    const current = head.variantIndex ?? 0;
+    if (target === current || !head.variants[target]?.length) return;
+
+    const variants = [...head.variants];
+    variants[current] = [this._stripVariants(head), ...this._state.messages.slice(index + 1)];
+    const [nextHead, ...rest] = variants[target];
+    variants[target] = [];
+
+    this._state.messages = [
+      ...this._state.messages.slice(0, index),
+      { ...nextHead, variants, variantIndex: target },
+      ...rest
+    ];
+
+    this._renderMessages();
+    this._saveState();
+  }
+
+  /**
+   * Store the user's rating of the assistant message at the given index and
+   * send it to the feedback endpoint. The rating is reverted if sending fails.
+   */
+  private async _submitFeedback(index: number, rating: MessageFeedback['rating'], comment: string): Promise<void> {
+    const msg = this._state.messages[index];
+    const serverId = msg?.serverId;
+    if (!msg || !serverId || !this._canRate(msg) || !this._apiClient) return;
+
+    const previous = msg.feedback;
+    const feedback: MessageFeedback = { rating, timestamp: Date.now() };
+    if (comment) feedback.comment = comment;
+    msg.feedback = feedback;
+    this._saveState();
+
+    try {
+      await this._apiClient.sendFeedback(serverId, feedback);
+      this._emit('omnifact:feedback', { messageId: serverId, feedback });
+    } catch (error) {
+      console.error('[OmnifactWidget] Failed to send feedback:', error);
+      if (msg.feedback === feedback) {
+        msg.feedback = previous;
+        this._saveState();
+        this._updateMessageActions();
+      }
+      this._emit('omnifact:error', {
+        error: error instanceof Error ? error : new Error(String(error))
       });
     }
+  }
 
-    // Clear storage
-    this._storage?.clearState();
+  /**
+   * Feedback is keyed by the server's message id, so answers without one
+   * can't be rated.
+   */
+  private _canRate(msg: ChatMessage): boolean {
+    return !!this._config?.enableFeedback && msg.role === 'assistant' && !msg.isWelcome && !msg.isError &&
+      !!msg.serverId;
+  }
 
-    // Re-render
-    this._renderMessages();
+  /**
+   * Cut the conversation at the given index, keeping the removed tail as a
+   * variant. Returns the variant bookkeeping for the replacement message.
+   */
+  private _branchAt(index: number): MessageBranch {
+    const tail = this._state.messages.slice(index);
+    const head = tail[0];
+    const variants = head.variants ? [...head.variants] : [[]];
+    const current = head.variantIndex ?? 0;
+
+    if (head.isError) {
+      // Failed attempts are not worth keeping
+      variants.splice(current, 1);
+    } else {
+      variants[current] = [this._stripVariants(head), ...tail.slice(1)];
+    }
+
+    this._state.messages = this._state.messages.slice(0, index);
+
+    if (variants.length === 0) return {};
+    variants.push([]);
+    return { variants, variantIndex: variants.length - 1 };
+  }
+
+  private _stripVariants(msg: ChatMessage): ChatMessage {
+    const { variants: _variants, variantIndex: _variantIndex, ...rest } = msg;
+    return rest;
+  }
+
+  /**
+   * Update edit/regenerate actions and variant switchers on rendered messages.
+   */
+  private _updateMessageActions(): void {
+    if (!this._messageList) return;
+
+    const items = Array.from(this._messageList.querySelectorAll('omnifact-message-item')) as MessageItem[];
+    const lastIndex = this._state.messages.length - 1;
+
+    items.forEach((el, index) => {
+      const msg = this._state.messages[index];
+      if (!msg) return;
+      el.canEdit = msg.role === 'user' && !this._handoff;
+      el.canRegenerate = index === lastIndex && msg.role === 'assistant' && !msg.isWelcome && !this._handoff;
+      el.setVariants(msg.variantIndex ?? 0, msg.variants?.length ?? 0);
+      el.canRate = this._canRate(msg);
+      el.canReadAloud = this._canReadAloud() && msg.role !== 'user' && !msg.isError;
+      el.speaking = this._readAloud?.message === msg;
+      el.feedback = msg.feedback || null;
+    });
+  }
+
+  private _canReadAloud(): boolean {
+    return !!(this._config?.enableReadAloud || this._config?.autoReadAloud) && SpeechReader.isSupported();
+  }
+
+  /**
+   * Read the message at the given index aloud, or stop if it is being read.
+   */
+  private _toggleReadAloud(index: number): void {
+    const msg = this._state.messages[index];
+    if (!msg) return;
+    if (this._readAloud?.message === msg) {
+      this.stopSpeaking();
+    } else {
+      this._speak(msg);
+    }
+  }
+
+  /**
+   * Have screen readers read a completed answer or an agent message.
+   */
+  private _announce(message: ChatMessage): void {
+    const text = SpeechText.fromMarkdown(message.content);
+    if (!text) return;
+    const author = message.role === 'agent' ? message.agentName || 'Support agent' : 'Assistant';
+    this._window?.announce(`${author}: ${text}`);
+  }
+
+  /**
+   * Read a complete message aloud, replacing what is being read.
+   */
+  private _speak(message: ChatMessage): void {
+    const reading: ReadAloud = { message, offset: message.content.length };
+    this._readAloud = reading;
+    this._speechReader.speak(SpeechText.fromMarkdown(message.content), () => this._endReadAloud(reading));
+    this._updateMessageActions();
+  }
+
+  /**
+   * Read a streaming answer aloud as its blocks complete (with
+   * `auto-read-aloud`). `done` reads the rest once the answer is complete.
+   */
+  private _readAlong(message: ChatMessage, done: boolean): void {
+    let reading = this._readAloud;
+    if (!reading || reading.message !== message) {
+      // Stopped by the visitor, or something else is being read
+      if (this._readAlongMessage === message || reading) return;
+      if (!this._config?.autoReadAloud || !SpeechReader.isSupported() || message.isError || !message.content) return;
+
+      const started: ReadAloud = { message, offset: 0 };
+      reading = started;
+      this._readAloud = started;
+      this._readAlongMessage = message;
+      this._speechReader.start(() => this._endReadAloud(started));
+      this._updateMessageActions();
+    }
+
+    // A retried answer starts over
+    if (message.content.length < reading.offset) reading.offset = 0;
+
+    const end = done
+      ? message.content.length
+      : StreamingMarkdownRenderer.stableBoundary(message.content, reading.offset);
+    if (end > reading.offset) {
+      this._speechReader.append(SpeechText.fromMarkdown(message.content.slice(reading.offset, end)));
+      reading.offset = end;
+    }
+    if (done) this._speechReader.finish();
+  }
+
+  private _endReadAloud(reading: ReadAloud): void {
+    if (this._readAloud !== reading) return;
+    this._readAloud = null;
+    this._updateMessageActions();
+  }
+
+  /**
+   * Get the index in the message list of a rendered message element.
+   */
+  private _indexOfMessageElement(el: EventTarget | null): number {
+    if (!this._messageList) return -1;
+    const items = Array.from(this._messageList.querySelectorAll('omnifact-message-item'));
+    return items.indexOf(el as Element);
+  }
+
+  /**
+   * Add the assistant message to state and render it as streaming.
+   */
+  private _showAssistantPlaceholder(assistantMessage: ChatMessage): MessageItem | null {
+    // Hide typing indicator once we start receiving
+    this._typingIndicator?.hide();
+
+    // Add placeholder message to state
+    this._state.messages.push(assistantMessage);
+
+    // Render streaming message
+    const messageEl = this._renderMessage(assistantMessage, true);
+
+    // Set hideSources immediately for streaming messages
+    if (messageEl && this._config?.hideSources) {
+      messageEl.hideSources = true;
+    }
+
+    return messageEl;
+  }
+
+  /**
+   * Scroll to the bottom once streamed content has been rendered
+   * (message items render chunks on the next animation frame).
+   */
+  private _scrollToBottomAfterRender(): void {
+    if (this._scrollFrame !== null) return;
+    this._scrollFrame = requestAnimationFrame(() => {
+      this._scrollFrame = null;
+      this._messageList?.scrollToBottom();
+    });
+  }
+
+  /**
+   * Create stream callbacks that write into the given assistant message.
+   */
+  private _createStreamCallbacks(assistantMessage: ChatMessage, messageEl: MessageItem | null): StreamCallbacks {
+    return {
+      onChunk: (chunk: string, accumulated: string, messageId: string | null) => {
+        assistantMessage.content = accumulated;
+        if (messageId) {
+          assistantMessage.id = messageId;
+          assistantMessage.serverId = messageId;
+        }
+        messageEl?.appendContent(chunk);
+        this._syncStream(assistantMessage);
+        this._readAlong(assistantMessage, false);
+        this._emit('omnifact:response-chunk', {
+          messageId: assistantMessage.id,
+          chunk,
+          content: accumulated
+        });
+
+        // Auto-scroll if user is near bottom
+        if (this._messageList?.isNearBottom()) {
+          this._scrollToBottomAfterRender();
+        }
+      },
+      onReferences: (refs: LegacyReferences) => {
+        // Store references in message and update UI
+        assistantMessage.references = refs;
+        if (messageEl) messageEl.references = refs;
+      },
+      onSource: (source: InlineSource) => {
+        // Accumulate sources
+        if (!assistantMessage.sources) {
+          assistantMessage.sources = [];
+        }
+        assistantMessage.sources.push(source);
+        if (messageEl) messageEl.sources = assistantMessage.sources;
+        this._syncStream(assistantMessage);
+        this._emit('omnifact:source', { messageId: assistantMessage.id, source });
+      },
+      onAgentStep: (_step: AgentStep, steps: AgentStep[]) => {
+        assistantMessage.steps = steps;
+        if (messageEl) messageEl.steps = steps;
+        this._syncStream(assistantMessage);
+      },
+      onHandoff: (request: HandoffRequest) => {
+        // Started once the answer is complete
+        this._pendingHandoff = request;
+      },
+      onComplete: (result) => {
+        assistantMessage.content = result.content;
+        if (result.messageId) {
+          assistantMessage.id = result.messageId;
+          assistantMessage.serverId = result.messageId;
+        }
+        if (result.references) {
+          assistantMessage.references = result.references;
+          if (messageEl) messageEl.references = result.references;
+        }
+        if (result.sources) {
+          assistantMessage.sources = result.sources;
+          if (messageEl) messageEl.sources = result.sources;
+        }
+        if (result.steps) {
+          assistantMessage.steps = result.steps;
+          if (messageEl) messageEl.steps = result.steps;
+        }
+        if (result.interrupted) {
+          assistantMessage.isInterrupted = true;
+          messageEl?.setAttribute('interrupted', '');
+        }
+        messageEl?.removeAttribute('streaming');
+
+        // Final content update with citations processed
+        if (messageEl) messageEl.content = result.content;
+
+        // Save to storage (not when stopped by clearing or switching the conversation)
+        if (this._state.messages.includes(assistantMessage)) {
+          this._saveState();
+          this._announce(assistantMessage);
+        }
+
+        this._emit('omnifact:response-complete', {
+          message: assistantMessage,
+          interrupted: !!result.interrupted
+        });
+      },
+      onError: (error: Error) => {
+        console.error('[OmnifactWidget] Stream error:', error);
+      }
+    };
+  }
+
+  private _generateMessageId(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return 'msg-' + crypto.randomUUID();
+    }
+    return 'msg-' + Math.random().toString(36).substring(2, 11);
+  }
+
+  /**
+   * Save current state to storage and share it with other tabs.
+   */
+  private _saveState(): void {
+    // The answering tab saves the conversation when it is done
+    if (!this._storage || this._isRemoteStreaming()) return;
+    const state = {
+      sessionId: this._state.sessionId,
+      messages: this._state.messages.slice()
+    };
+    const streaming = this._state.isTyping;
+
+    this._storage.saveState(state).then(() => {
+      this._tabSync?.post({ type: 'state', ...state, streaming });
+      this._updateConversationList();
+    });
+  }
+
+  /**
+   * Send the partial answer being streamed to other tabs.
+   */
+  private _syncStream(assistantMessage: ChatMessage): void {
+    this._tabSync?.postThrottled({
+      type: 'stream',
+      sessionId: this._state.sessionId,
+      message: assistantMessage
+    });
+  }
+
+  /**
+   * Whether an answer is being streamed for the shown conversation,
+   * in this tab or another one.
+   */
+  private _isBusy(): boolean {
+    return this._state.isTyping || this._isRemoteStreaming();
+  }
+
+  private _isRemoteStreaming(): boolean {
+    return !!this._remoteStream && this._remoteStream.sessionId === this._state.sessionId;
+  }
+
+  /**
+   * Apply an update from another tab.
+   */
+  private _onTabSyncMessage(message: TabSyncMessage): void {
+    switch (message.type) {
+      case 'state':
+        this._applyRemoteState(message.sessionId, message.messages, message.streaming);
+        break;
+      case 'stream':
+        this._applyRemoteStream(message.sessionId, message.message);
+        break;
+      case 'delete':
+        if (message.sessionId === this._state.sessionId && !this._state.isTyping) {
+          this._clearRemoteStream();
+          this._setConversation(message.sessionId, []);
+        } else {
+          this._updateConversationList();
+        }
+        break;
+      case 'conversations':
+        this._updateConversationList();
+        break;
+      case 'open':
+        if (this._config?.syncOpenState) this._setOpen(message.isOpen, false);
+        break;
+    }
+  }
+
+  /**
+   * Show a conversation saved by another tab if it is the one shown here.
+   */
+  private _applyRemoteState(sessionId: string | null, messages: ChatMessage[], streaming: boolean): void {
+    if (streaming) {
+      this._watchRemoteStream(sessionId);
+    } else if (this._remoteStream?.sessionId === sessionId) {
+      this._clearRemoteStream();
+    }
+
+    if (sessionId !== this._state.sessionId || this._state.isTyping) {
+      this._updateConversationList();
+      return;
+    }
+
+    if (this._remoteStream) {
+      // The snapshot includes whatever was streamed so far
+      this._remoteStream.message = null;
+      this._remoteStream.element = null;
+    }
+    if (JSON.stringify(messages) !== JSON.stringify(this._state.messages)) {
+      this._setConversation(sessionId, messages);
+    } else {
+      this._updateConversationList();
+      this._updateRemoteStreaming();
+    }
+  }
+
+  /**
+   * Show the partial answer another tab is streaming.
+   */
+  private _applyRemoteStream(sessionId: string | null, message: ChatMessage): void {
+    const remote = this._watchRemoteStream(sessionId);
+    if (sessionId !== this._state.sessionId || this._state.isTyping) return;
+
+    if (!remote.message || !this._state.messages.includes(remote.message)) {
+      remote.message = { ...message };
+      this._state.messages.push(remote.message);
+      remote.element = this._renderMessage(remote.message, true);
+      this._typingIndicator?.hide();
+    } else {
+      const previous = remote.message.content;
+      Object.assign(remote.message, message);
+      const el = remote.element;
+      if (el) {
+        if (message.steps) el.steps = message.steps;
+        if (message.sources) el.sources = message.sources;
+        if (message.content.startsWith(previous)) {
+          el.appendContent(message.content.slice(previous.length));
+        } else {
+          el.content = message.content;
+        }
+      }
+    }
+
+    if (this._messageList?.isNearBottom()) {
+      this._scrollToBottomAfterRender();
+    }
+  }
+
+  /**
+   * Note that another tab is answering in the given conversation.
+   * Released when that tab saves the answer or goes quiet.
+   */
+  private _watchRemoteStream(sessionId: string | null): RemoteStream {
+    if (this._remoteStream && this._remoteStream.sessionId !== sessionId) {
+      this._clearRemoteStream();
+    }
+
+    const timer = setTimeout(() => this._clearRemoteStream(), OmnifactChatWidget.REMOTE_STREAM_TIMEOUT);
+    if (this._remoteStream) {
+      clearTimeout(this._remoteStream.timer);
+      this._remoteStream.timer = timer;
+    } else {
+      this._remoteStream = { sessionId, message: null, element: null, timer };
+    }
+
+    this._updateRemoteStreaming();
+    return this._remoteStream;
+  }
+
+  private _clearRemoteStream(): void {
+    if (!this._remoteStream) return;
+    clearTimeout(this._remoteStream.timer);
+    this._remoteStream.element?.removeAttribute('streaming');
+    this._remoteStream = null;
+    this._updateRemoteStreaming();
+  }
+
+  /**
+   * Lock the input while another tab answers in the shown conversation.
+   */
+  private _updateRemoteStreaming(): void {
+    if (this._state.isTyping) return;
+
+    const remote = this._isRemoteStreaming();
+    if (this._chatInput) this._chatInput.disabled = remote;
+    if (remote && !this._remoteStream?.message) {
+      this._typingIndicator?.show();
+    } else {
+      this._typingIndicator?.hide();
+    }
+    this._updateMessageActions();
+  }
+
+  /**
+   * Show the stored conversations in the chat window.
+   */
+  private async _updateConversationList(): Promise<void> {
+    if (!this._window || !this._storage) return;
+    const conversations = await this._storage.listConversations();
+    if (!this._window) return;
+    this._window.conversations = conversations;
+    this._window.activeConversationId = this._state.sessionId;
+  }
+
+  /**
+   * Start a new conversation. The current one stays in the conversation list.
+   */
+  async newConversation(): Promise<void> {
+    if (!this._storage) return;
+    await this._sessionReady;
+    this.stop();
+    this._saveState();
+
+    const state = await this._storage.createConversation();
+    this._showConversation(state.sessionId, state.messages);
+  }
+
+  /**
+   * Switch to a stored conversation. Resolves to false if it doesn't exist.
+   */
+  async switchConversation(id: string): Promise<boolean> {
+    if (!this._storage) return false;
+    await this._sessionReady;
+    if (id === this._state.sessionId) return true;
+
+    this.stop();
+    this._saveState();
+
+    const state = await this._storage.loadConversation(id);
+    if (!state) {
+      console.warn('[OmnifactWidget] Conversation not found:', id);
+      this._updateConversationList();
+      return false;
+    }
+    this._showConversation(state.sessionId, state.messages);
+    return true;
+  }
+
+  /**
+   * Get the stored conversations, most recently updated first.
+   */
+  async getConversations(): Promise<ConversationSummary[]> {
+    if (!this._storage) return [];
+    return this._storage.listConversations();
+  }
+
+  /**
+   * Export the shown conversation as Markdown, plain text, JSON (full
+   * messages including sources and references) or printable HTML.
+   */
+  exportConversation(format: TranscriptFormat = 'markdown'): string {
+    return Transcript.export(this._state.messages, format, {
+      title: this._conversationTitle(),
+      sessionId: this._state.sessionId,
+      urlSanitizer: this._urlSanitizer
+    });
+  }
+
+  /**
+   * Import a JSON transcript (as produced by `exportConversation('json')`)
+   * as a new conversation and show it. Rejects with a TranscriptError if
+   * the transcript is invalid.
+   */
+  async importConversation(transcript: string | TranscriptData | ChatMessage[]): Promise<void> {
+    const data = Transcript.parse(transcript);
+    if (!this._storage) return;
+    await this._sessionReady;
+    this.stop();
+    this._saveState();
+
+    const state = await this._storage.createConversation();
+    this._showConversation(state.sessionId, data.messages);
+    this._saveState();
+  }
+
+  /**
+   * Let the visitor download or print the shown conversation, unless the
+   * host page handles `omnifact:export` itself.
+   */
+  private _downloadTranscript(format: TranscriptFormat): void {
+    const content = this.exportConversation(format);
+    const filename = Transcript.filename(this._conversationTitle(), format);
+    const proceed = this._emit('omnifact:export', {
+      sessionId: this._state.sessionId,
+      format,
+      content,
+      filename
+    }, true);
+    if (!proceed) return;
+
+    if (format === 'html') {
+      // Print from a new window (browsers offer "Save as PDF" there)
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(content);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+        return;
+      }
+    }
+
+    const url = URL.createObjectURL(new Blob([content], { type: `${Transcript.mimeType(format)};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Title of the shown conversation, falling back to the widget title.
+   */
+  private _conversationTitle(): string {
+    const summary = this._window?.conversations.find(c => c.id === this._state.sessionId);
+    return summary?.title || this._config?.title || 'Chat';
+  }
+
+  /**
+   * Keep chat history in a custom store (e.g. on your server) instead of
+   * the built-in `storage` backend. Pass null to go back to the built-in one.
+   */
+  setStorageAdapter(adapter: StorageAdapter | null): void {
+    this._storageAdapter = adapter;
+    this._resetStorage();
+  }
+
+  /**
+   * Switch to the configured storage and restore its active conversation.
+   */
+  private _resetStorage(): void {
+    if (!this.isConnected || !this._storage) return;
+
+    this.stop();
+    this._storage = this._createStorage();
+    this._resetTabSync();
+    this._sessionReady = this._restoreSession();
+  }
+
+  /**
+   * Delete a stored conversation. Deleting the current one starts a new conversation.
+   */
+  private async _deleteConversation(id: string): Promise<void> {
+    if (!this._storage) return;
+
+    if (id === this._state.sessionId) {
+      this.stop();
+      await this._storage.deleteConversation(id);
+      const state = await this._storage.createConversation();
+      this._showConversation(state.sessionId, state.messages);
+    } else {
+      await this._storage.deleteConversation(id);
+      this._updateConversationList();
+    }
+    this._tabSync?.post({ type: 'delete', sessionId: id });
+  }
+
+  /**
+   * Replace the shown conversation and notify the host page.
+   */
+  private _showConversation(sessionId: string | null, messages: ChatMessage[]): void {
+    const previousSessionId = this._state.sessionId;
+    this.endHandoff();
+    this.stopSpeaking();
+    this._setConversation(sessionId, messages);
+    this._emit('omnifact:conversation-change', { sessionId, previousSessionId });
+  }
+
+  /**
+   * Replace the shown conversation.
+   */
+  private _setConversation(sessionId: string | null, messages: ChatMessage[]): void {
+    this._state.sessionId = sessionId;
+    this._state.messages = messages;
+
+    // Add welcome message if no messages exist
+    if (this._state.messages.length === 0 && this._config?.welcomeMessage) {
+      this._state.messages.push({
+        id: 'welcome',
+        role: 'assistant',
+        content: this._config.welcomeMessage,
+        timestamp: Date.now(),
+        isWelcome: true
+      });
+    }
+
+    this._renderMessages();
+    this._updateConversationList();
+    this._updateRemoteStreaming();
+  }
+
+  /**
+   * Hand the conversation to a human agent. Messages go through the
+   * handoff transport until the agent or visitor ends the chat; the
+   * transcript so far is passed to the agent.
+   * Resolves to false if no transport is configured or connecting failed.
+   */
+  async startHandoff(reason?: string): Promise<boolean> {
+    if (this._handoff) return true;
+
+    const transport = this._createHandoffTransport();
+    if (!transport) {
+      console.warn('[OmnifactWidget] Handoff is not configured: set handoff-url or call setHandoffTransport()');
+      return false;
+    }
+
+    await this._sessionReady;
+    this.stop();
+
+    const handoff: Handoff = { transport, status: 'connecting', reason };
+    this._handoff = handoff;
+    this._setHandoffStatus(handoff, 'connecting');
+
+    try {
+      await transport.connect({
+        sessionId: this._state.sessionId,
+        reason,
+        transcript: this._state.messages
+          .filter(m => !m.isWelcome && !m.isError)
+          .map(m => this._stripVariants(m))
+      }, {
+        onMessage: (message: AgentMessage) => this._receiveAgentMessage(handoff, message),
+        onStatus: (status: HandoffStatus, agentName?: string) => {
+          if (status === 'ended') {
+            if (this._handoff === handoff) this.endHandoff();
+          } else {
+            this._setHandoffStatus(handoff, status, agentName);
+          }
+        }
+      });
+      if (handoff.status === 'connecting') this._setHandoffStatus(handoff, 'waiting');
+      return this._handoff === handoff;
+    } catch (error) {
+      console.error('[OmnifactWidget] Failed to start handoff:', error);
+      if (this._handoff === handoff) {
+        this._handoff = null;
+        this._setHandoffStatus(handoff, 'ended');
+      }
+      this._emit('omnifact:error', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      return false;
+    }
+  }
+
+  /**
+   * End the handoff and go back to the assistant.
+   */
+  async endHandoff(): Promise<void> {
+    const handoff = this._handoff;
+    if (!handoff) return;
+
+    this._handoff = null;
+    this._setHandoffStatus(handoff, 'ended');
+    try {
+      await handoff.transport.disconnect();
+    } catch (error) {
+      console.warn('[OmnifactWidget] Failed to end handoff:', error);
+    }
+  }
+
+  /**
+   * Route handoff messages through a custom transport (e.g. your support
+   * system's SDK) instead of the one from `handoff-url`. Pass null to remove it.
+   */
+  setHandoffTransport(transport: HandoffTransport | null): void {
+    this._handoffTransport = transport;
+    this._updateHandoffAvailability();
+  }
+
+  /**
+   * Create the transport for a new handoff: the host's, or one for
+   * `handoff-url` (`ws(s)://` uses a WebSocket, `mock` a simulated agent,
+   * anything else HTTP polling).
+   */
+  private _createHandoffTransport(): HandoffTransport | null {
+    if (this._handoffTransport) return this._handoffTransport;
+
+    const url = this._config?.handoffUrl || '';
+    if (!url) return null;
+    if (url === 'mock') return new MockHandoffTransport();
+    if (/^wss?:\/\//i.test(url)) return new WebSocketHandoffTransport(url);
+    return new PollingHandoffTransport(url);
+  }
+
+  /**
+   * Offer "Talk to a human" when handoff is enabled and configured.
+   */
+  private _updateHandoffAvailability(): void {
+    if (!this._window) return;
+    this._window.handoffAvailable = !!this._config?.enableHandoff &&
+      (!!this._handoffTransport || !!this._config.handoffUrl);
+  }
+
+  /**
+   * Update the handoff state, the status banner and notify the host page.
+   */
+  private _setHandoffStatus(handoff: Handoff, status: HandoffStatus, agentName?: string): void {
+    if (status !== 'ended' && this._handoff !== handoff) return;
+
+    handoff.status = status;
+    if (agentName) handoff.agentName = agentName;
+
+    this._window?.setHandoffStatus(status, handoff.agentName);
+    this._updateMessageActions();
+    this._updateAttachmentPolicy();
+    this._emit('omnifact:handoff', {
+      sessionId: this._state.sessionId,
+      status,
+      agentName: handoff.agentName,
+      reason: handoff.reason
+    });
+  }
+
+  /**
+   * Send a visitor message to the agent.
+   */
+  private async _sendToAgent(handoff: Handoff, userMessage: ChatMessage): Promise<void> {
+    this._saveState();
+    try {
+      await handoff.transport.send(userMessage.content);
+    } catch (error) {
+      console.error('[OmnifactWidget] Failed to send message to agent:', error);
+      this._emit('omnifact:error', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+
+      const errorMessage: ChatMessage = {
+        id: this._generateMessageId(),
+        role: 'assistant',
+        content: 'Sorry, your message could not be delivered to the support agent.',
+        timestamp: Date.now(),
+        isError: true
+      };
+      this._state.messages.push(errorMessage);
+      this._renderMessage(errorMessage);
+      this._updateMessageActions();
+    }
+  }
+
+  /**
+   * Show a message from the agent.
+   */
+  private _receiveAgentMessage(handoff: Handoff, message: AgentMessage): void {
+    if (this._handoff !== handoff || !message.content) return;
+
+    const agentMessage: ChatMessage = {
+      id: message.id || this._generateMessageId(),
+      role: 'agent',
+      content: message.content,
+      timestamp: message.timestamp || Date.now(),
+      agentName: message.agentName || handoff.agentName
+    };
+    this._state.messages.push(agentMessage);
+    this._renderMessage(agentMessage);
+    this._updateMessageActions();
+    this._announce(agentMessage);
+    if (this._config?.autoReadAloud && SpeechReader.isSupported()) {
+      this._speak(agentMessage);
+    }
+
+    if (!this._state.isOpen && this._bubble) {
+      this._bubble.hasUnread = true;
+    }
+    if (this._messageList?.isNearBottom()) {
+      this._scrollToBottomAfterRender();
+    }
+    this._saveState();
+  }
+
+  /**
+   * Use another speech-to-text service for dictation (e.g. where the
+   * browser has no Web Speech API). Requires `enable-voice-input`.
+   * Pass null to go back to the browser's recognizer.
+   */
+  setSpeechRecognizer(recognizer: SpeechRecognizer | null): void {
+    this._speechRecognizer = recognizer;
+    this._updateVoiceInput();
+  }
+
+  /**
+   * Stop reading a message aloud.
+   */
+  stopSpeaking(): void {
+    this._speechReader.stop();
+  }
+
+  /**
+   * Stop the in-flight assistant response.
+   * The partial answer is kept and marked as interrupted.
+   */
+  stop(): void {
+    this._abortController?.abort();
+  }
+
+  /**
+   * Authenticate with short-lived bearer tokens from the given callback
+   * instead of a static API key. Takes precedence over `token-endpoint`.
+   * Pass null to remove it again.
+   */
+  setTokenProvider(provider: TokenProvider | null): void {
+    this._tokenProvider = provider;
+    this._apiClient?.setAuthProvider(this._createAuthProvider());
+  }
+
+  /**
+   * Use an external syntax highlighter (e.g. highlight.js or Prism) for code
+   * blocks. It receives the code and language and returns escaped HTML, or
+   * null to fall back to the built-in highlighter. Pass null to remove it.
+   */
+  setHighlighter(highlighter: HighlightFunction | null): void {
+    this._highlighter = highlighter;
+    this._messageList?.querySelectorAll('omnifact-message-item').forEach(el => {
+      (el as MessageItem).highlighter = highlighter;
+    });
+  }
+
+  /**
+   * Register a request/response interceptor on the API client.
+   * Can be called before the widget is connected.
+   * Returns a function that removes the interceptor again.
+   */
+  addInterceptor(interceptor: ApiInterceptor): () => void {
+    if (!this._interceptors.includes(interceptor)) {
+      this._interceptors.push(interceptor);
+    }
+    this._apiClient?.addInterceptor(interceptor);
+    return () => this.removeInterceptor(interceptor);
+  }
+
+  /**
+   * Remove a previously registered interceptor.
+   */
+  removeInterceptor(interceptor: ApiInterceptor): void {
+    this._interceptors = this._interceptors.filter(i => i !== interceptor);
+    this._apiClient?.removeInterceptor(interceptor);
+  }
+
+  /**
+   * Clear chat history and start fresh.
+   */
+  clearHistory(): void {
+    this.stop();
+    this.endHandoff();
+    this.stopSpeaking();
+    this._state.messages = [];
+    this._attachmentData.clear();
+
+    // Add welcome message
+    if (this._config?.welcomeMessage) {
+      this._state.messages.push({
+        id: 'welcome',
+        role: 'assistant',
+        content: this._config.welcomeMessage,
+        timestamp: Date.now(),
+        isWelcome: true
+      });
+    }
+
+    // Clear storage
+    const sessionId = this._state.sessionId;
+    this._storage?.clearState().then(() => {
+      this._tabSync?.post({ type: 'delete', sessionId });
+      this._updateConversationList();
+    });
+
+    // Re-render
+    this._renderMessages();
+
+    this._emit('omnifact:history-cleared', { sessionId: this._state.sessionId });
   }
 
   /**
@@ -43,7 +43,7 @@ export class TypingIndicator extends HTMLElement {
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          --dot-color: #6366f1;
+          --dot-color: #4f46e5;
           display: flex;
           align-items: center;
           gap: 8px;
@@ -106,10 +106,30 @@ export class TypingIndicator extends HTMLElement {
             opacity: 1;
           }
         }
+
+        @media (prefers-reduced-motion: reduce) {
+          .dot {
+            animation: none;
+            opacity: 0.7;
+          }
+        }
+
+        .label {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          margin: -1px;
+          padding: 0;
+          overflow: hidden;
+          clip: rect(0, 0, 0, 0);
+          white-space: nowrap;
+          border: 0;
+        }
       </style>
 
-      <div class="avatar">&#129302;</div>
-      <div class="dots">
+      <div class="avatar" aria-hidden="true">&#129302;</div>
+      <span class="label">Assistant is typing</span>
+      <div class="dots" aria-hidden="true">
         <div class="dot"></div>
         <div class="dot"></div>
         <div class="dot"></div>
@@ -17,24 +17,88 @@ import { TypingIndicator } from './components/typing-indicator';
 // Import services (for programmatic use)
 import { ApiClient } from './services/api-client';
 import { SSEHandler } from './services/sse-handler';
+import { SSEParser } from './services/sse-parser';
 import { StorageService } from './services/storage-service';
+import { WebStorageAdapter, MemoryStorageAdapter, IndexedDBStorageAdapter } from './services/storage-adapters';
+import { StorageSchema, StorageSchemaError } from './services/storage-schema';
+import { TabSync } from './services/tab-sync';
+import { WebSocketHandoffTransport, PollingHandoffTransport, MockHandoffTransport } from './services/handoff-transports';
+import { WebSpeechRecognizer, SpeechReader } from './services/speech';
+import { AuthProvider } from './services/auth-provider';
 
 // Import utilities
 import { ConfigManager } from './utils/config-manager';
 import { MarkdownRenderer } from './utils/markdown-renderer';
+import { MarkdownParser } from './utils/markdown-parser';
+import { StreamingMarkdownRenderer } from './utils/streaming-markdown-renderer';
+import { RetryPolicy } from './utils/retry-policy';
+import { UrlSanitizer } from './utils/url-sanitizer';
+import { CodeHighlighter } from './utils/code-highlighter';
+import { Transcript, TranscriptError } from './utils/transcript';
+import { AttachmentPolicy } from './utils/attachment-policy';
+import { SpeechText } from './utils/speech-text';
+import { FocusTrap } from './utils/focus-trap';
 
 // Export types
 export type {
   WidgetConfig,
   ChatMessage,
+  MessageFeedback,
+  ConversationSummary,
+  TranscriptFormat,
+  TranscriptData,
+  Attachment,
   ApiMessage,
+  ApiContentPart,
+  ApiRequest,
+  ApiInterceptor,
+  AuthToken,
+  TokenProvider,
+  StorageType,
+  StorageAdapter,
+  StorageLimits,
+  HandoffStatus,
+  HandoffRequest,
+  HandoffSession,
+  HandoffHandlers,
+  HandoffTransport,
+  AgentMessage,
+  SpeechRecognizer,
+  SpeechRecognizerHandlers,
   InlineSource,
+  AgentStep,
+  AgentStepKind,
+  AgentStepStatus,
   LegacyReferences,
   LegacyDocument,
   StreamResult,
   StreamCallbacks,
-  ThemeConfig
+  ThemeConfig,
+  OmnifactEventMap,
+  VisibilityEventDetail,
+  MessageSentEventDetail,
+  ResponseChunkEventDetail,
+  ResponseCompleteEventDetail,
+  SourceEventDetail,
+  CitationClickEventDetail,
+  FeedbackEventDetail,
+  ErrorEventDetail,
+  HistoryClearedEventDetail,
+  ConversationChangeEventDetail,
+  ExportEventDetail,
+  HandoffEventDetail
 } from './types';
+export type { SSEEvent } from './services/sse-parser';
+export type { QuarantinedEntry } from './services/storage-schema';
+export type { TabSyncMessage } from './services/tab-sync';
+export type { MockHandoffOptions } from './services/handoff-transports';
+export type { SpeechReaderOptions } from './services/speech';
+export type { MarkdownRendererOptions } from './utils/markdown-renderer';
+export type { BlockNode, InlineNode } from './utils/markdown-parser';
+export type { UrlSanitizerOptions, SanitizedUrl } from './utils/url-sanitizer';
+export type { HighlightFunction } from './utils/code-highlighter';
+export type { TranscriptOptions } from './utils/transcript';
+export type { AttachmentPolicyOptions } from './utils/attachment-policy';
 
 // Register custom elements (only if not already registered)
 const registerElement = (name: string, constructor: CustomElementConstructor): void => {
@@ -70,11 +134,34 @@ export {
   // Services
   ApiClient,
   SSEHandler,
+  SSEParser,
   StorageService,
+  WebStorageAdapter,
+  MemoryStorageAdapter,
+  IndexedDBStorageAdapter,
+  StorageSchema,
+  StorageSchemaError,
+  TabSync,
+  WebSocketHandoffTransport,
+  PollingHandoffTransport,
+  MockHandoffTransport,
+  WebSpeechRecognizer,
+  SpeechReader,
+  AuthProvider,
 
   // Utilities
   ConfigManager,
-  MarkdownRenderer
+  MarkdownRenderer,
+  MarkdownParser,
+  StreamingMarkdownRenderer,
+  RetryPolicy,
+  UrlSanitizer,
+  CodeHighlighter,
+  Transcript,
+  TranscriptError,
+  AttachmentPolicy,
+  SpeechText,
+  FocusTrap
 };
 
 // Default export
@@ -0,0 +1,139 @@
+import type { AgentStep, AgentStepKind, AgentStepStatus } from '../types';
+
+/**
+ * Maps agentic workflow SSE event types to step kinds.
+ */
+const EVENT_KINDS = new Map<string, AgentStepKind>([
+  ['agent_step', 'step'],
+  ['agent_plan', 'planning'],
+  ['planning', 'planning'],
+  ['tool_call', 'tool_call'],
+  ['tool_result', 'tool_call'],
+  ['retrieval', 'retrieval'],
+  ['intermediate_result', 'result']
+]);
+
+const DEFAULT_TITLES: Record<AgentStepKind, string> = {
+  step: 'Working',
+  planning: 'Planning',
+  tool_call: 'Using tool',
+  retrieval: 'Searching knowledge base',
+  result: 'Intermediate result'
+};
+
+/**
+ * Collects agentic workflow events into an ordered list of steps.
+ * Events that share an id (e.g. `tool_call` and its `tool_result`)
+ * update the same step.
+ */
+export class AgentStepTracker {
+  private _steps: AgentStep[] = [];
+
+  constructor(initial: AgentStep[] = []) {
+    this._steps = initial.map(step => ({ ...step }));
+  }
+
+  /**
+   * Check whether an SSE event type belongs to the agentic workflow.
+   */
+  static isAgentEvent(eventType: string): boolean {
+    return EVENT_KINDS.has(eventType);
+  }
+
+  /**
+   * Current steps (copies, safe to keep).
+   */
+  get steps(): AgentStep[] {
+    return this._steps.map(step => ({ ...step }));
+  }
+
+  /**
+   * Apply an agentic event payload. Returns the created or updated step.
+   */
+  apply(eventType: string, payload: unknown): AgentStep | null {
+    const kind = EVENT_KINDS.get(eventType);
+    if (!kind) return null;
+
+    const data = (payload && typeof payload === 'object'
+      ? payload
+      : { content: payload === undefined ? undefined : String(payload) }) as Record<string, unknown>;
+
+    const id = this._string(data.id ?? data.stepId ?? data.toolCallId) || `step-${this._steps.length + 1}`;
+    const isResult = eventType === 'tool_result';
+    const existing = this._steps.find(step => step.id === id);
+
+    const toolName = this._string(data.toolName ?? data.tool ?? data.name);
+    const title = this._string(data.title ?? data.label ?? data.description)
+      || (kind === 'tool_call' && toolName ? `Using ${toolName}` : '');
+    const detail = this._string(data.content ?? data.message ?? data.text ?? data.query);
+    const status = this._status(data.status) || (isResult || kind === 'result' ? 'completed' : undefined);
+    const stepKind = this._kind(data.type) || kind;
+
+    if (existing) {
+      if (title) existing.title = title;
+      if (detail) existing.detail = detail;
+      if (toolName) existing.toolName = toolName;
+      if (data.input !== undefined || data.arguments !== undefined) existing.input = data.input ?? data.arguments;
+      if (data.output !== undefined || data.result !== undefined) existing.output = data.output ?? data.result;
+      if (status) existing.status = status;
+      if (existing.status !== 'running' && !existing.finishedAt) existing.finishedAt = Date.now();
+      return { ...existing };
+    }
+
+    // A new step means earlier running steps (without explicit updates) are done
+    this._steps.forEach(step => {
+      if (step.status === 'running' && step.kind !== 'tool_call') {
+        step.status = 'completed';
+        step.finishedAt = Date.now();
+      }
+    });
+
+    const step: AgentStep = {
+      id,
+      kind: stepKind,
+      title: title || DEFAULT_TITLES[stepKind],
+      status: status || 'running',
+      startedAt: Date.now()
+    };
+    if (detail) step.detail = detail;
+    if (toolName) step.toolName = toolName;
+    if (data.input !== undefined || data.arguments !== undefined) step.input = data.input ?? data.arguments;
+    if (data.output !== undefined || data.result !== undefined) step.output = data.output ?? data.result;
+    if (step.status !== 'running') step.finishedAt = step.startedAt;
+
+    this._steps.push(step);
+    return { ...step };
+  }
+
+  /**
+   * Mark all running steps as finished (stream ended).
+   */
+  complete(status: AgentStepStatus = 'completed'): void {
+    this._steps.forEach(step => {
+      if (step.status === 'running') {
+        step.status = status;
+        step.finishedAt = Date.now();
+      }
+    });
+  }
+
+  private _string(value: unknown): string {
+    return typeof value === 'string' ? value : '';
+  }
+
+  private _status(value: unknown): AgentStepStatus | undefined {
+    if (value === 'running' || value === 'completed' || value === 'failed') return value;
+    if (value === 'started' || value === 'in_progress') return 'running';
+    if (value === 'done' || value === 'success') return 'completed';
+    if (value === 'error') return 'failed';
+    return undefined;
+  }
+
+  private _kind(value: unknown): AgentStepKind | undefined {
+    // Own keys only: `constructor` or `toString` are not step kinds
+    if (typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_TITLES, value)) {
+      return value as AgentStepKind;
+    }
+    return undefined;
+  }
+}
@@ -1,4 +1,15 @@
-import type { WidgetConfig, ApiMessage } from '../types';
+import type { WidgetConfig, ApiMessage, ApiRequest, ApiInterceptor, MessageFeedback, Attachment } from '../types';
+import type { AuthProvider } from './auth-provider';
+
+/**
+ * Per-request options for sendMessage.
+ */
+export interface SendMessageOptions {
+  /** Cancels the request and the response body when aborted. */
+  signal?: AbortSignal;
+  /** Last SSE event id received, sent as Last-Event-ID to resume a stream. */
+  lastEventId?: string | null;
+}
 
 /**
  * API client for communicating with the Omnifact chat endpoint.
@@ -8,35 +19,58 @@ export class ApiClient {
   private baseUrl: string;
   private endpointId: string;
   private apiKey: string;
+  private feedbackUrl: string;
+  private attachmentUploadUrl: string;
   private enableInlineSources: boolean;
   private enableAgenticWorkflow: boolean;
   private debug: boolean;
+  private interceptors: ApiInterceptor[] = [];
+  private authProvider: AuthProvider | null = null;
 
   constructor(config: WidgetConfig) {
     this.baseUrl = config.endpointUrl;
     this.endpointId = config.endpointId;
     this.apiKey = config.apiKey;
+    this.feedbackUrl = config.feedbackUrl || '';
+    this.attachmentUploadUrl = config.attachmentUploadUrl || '';
     this.enableInlineSources = config.enableInlineSources || false;
     this.enableAgenticWorkflow = config.enableAgenticWorkflow || false;
     this.debug = config.debug || false;
   }
 
+  /**
+   * Use bearer tokens from the given provider instead of the static API key.
+   */
+  setAuthProvider(provider: AuthProvider | null): void {
+    this.authProvider = provider;
+  }
+
+  /**
+   * Register a request/response interceptor.
+   */
+  addInterceptor(interceptor: ApiInterceptor): void {
+    if (!this.interceptors.includes(interceptor)) {
+      this.interceptors.push(interceptor);
+    }
+  }
+
+  /**
+   * Remove a previously registered interceptor.
+   */
+  removeInterceptor(interceptor: ApiInterceptor): void {
+    this.interceptors = this.interceptors.filter(i => i !== interceptor);
+  }
+
   /**
    * Send a chat message to the API.
    */
-  async sendMessage(messages: ApiMessage[], streaming: true): Promise<Response>;
-  async sendMessage(messages: ApiMessage[], streaming: false): Promise<unknown>;
-  async sendMessage(messages: ApiMessage[], streaming = true): Promise<Response | unknown> {
+  async sendMessage(messages: ApiMessage[], streaming: true, options?: SendMessageOptions): Promise<Response>;
+  async sendMessage(messages: ApiMessage[], streaming: false, options?: SendMessageOptions): Promise<unknown>;
+  async sendMessage(messages: ApiMessage[], streaming = true, options: SendMessageOptions = {}): Promise<Response | unknown> {
+    const { signal, lastEventId } = options;
     const url = `${this.baseUrl}/v1/endpoints/${this.endpointId}/chat`;
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json'
-    };
-
-    // Only add API key header if provided
-    if (this.apiKey) {
-      headers['X-API-Key'] = this.apiKey;
-    }
+    const headers = await this._headers();
 
     // Add inline sources header if enabled
     if (this.enableInlineSources) {
@@ -48,27 +82,59 @@ export class ApiClient {
       headers['omnifact-enable-agentic-workflow'] = 'true';
     }
 
-    if (this.debug) {
-      console.log('[API Debug] Request URL:', url);
-      console.log('[API Debug] Request headers:', headers);
-      console.log('[API Debug] Request body:', { messages, streaming });
+    // Resume an interrupted stream from the last received event
+    if (lastEventId) {
+      headers['Last-Event-ID'] = lastEventId;
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
+    let request: ApiRequest = {
+      url,
       headers,
-      body: JSON.stringify({
+      body: {
         messages: messages.map(m => ({
           role: m.role,
           content: m.content
         })),
         streaming
-      })
-    });
+      }
+    };
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      throw new ApiError(`API request failed: ${response.status}`, response.status, errorText);
+    for (const interceptor of this.interceptors) {
+      if (interceptor.beforeRequest) {
+        request = (await interceptor.beforeRequest(request)) || request;
+      }
+    }
+
+    if (this.debug) {
+      console.log('[API Debug] Request URL:', request.url);
+      console.log('[API Debug] Request headers:', request.headers);
+      console.log('[API Debug] Request body:', request.body);
+    }
+
+    let response: Response;
+    try {
+      response = await this._fetch(request, signal);
+
+      // Token may have expired early or been revoked - refresh once and retry
+      if (response.status === 401 && this.authProvider) {
+        request.headers['Authorization'] = `Bearer ${await this.authProvider.getToken(true)}`;
+        response = await this._fetch(request, signal);
+      }
+
+      for (const interceptor of this.interceptors) {
+        if (interceptor.afterResponse) {
+          response = (await interceptor.afterResponse(response, request)) || response;
+        }
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        const retryAfter = this._parseRetryAfter(response.headers.get('Retry-After'));
+        throw new ApiError(`API request failed: ${response.status}`, response.status, errorText, retryAfter);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      response = await this._handleError(error, request);
     }
 
     if (streaming) {
@@ -78,6 +144,143 @@ export class ApiClient {
     return response.json();
   }
 
+  /**
+   * Send user feedback for an assistant message to the feedback endpoint.
+   */
+  async sendFeedback(messageId: string, feedback: MessageFeedback): Promise<void> {
+    const url = this.feedbackUrl || `${this.baseUrl}/v1/endpoints/${this.endpointId}/feedback`;
+    const body = JSON.stringify({
+      messageId,
+      rating: feedback.rating,
+      comment: feedback.comment || undefined
+    });
+
+    const headers = await this._headers();
+    let response = await fetch(url, { method: 'POST', headers, body });
+
+    if (response.status === 401 && this.authProvider) {
+      headers['Authorization'] = `Bearer ${await this.authProvider.getToken(true)}`;
+      response = await fetch(url, { method: 'POST', headers, body });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new ApiError(`Feedback request failed: ${response.status}`, response.status, errorText);
+    }
+  }
+
+  /**
+   * Upload an attachment to the attachment upload endpoint as
+   * `multipart/form-data` (field `file`). The endpoint answers with
+   * `{ url }` or `{ id }`, which is returned as the reference to send
+   * instead of the file content.
+   */
+  async uploadAttachment(attachment: Attachment, signal?: AbortSignal): Promise<string> {
+    if (!this.attachmentUploadUrl) {
+      throw new Error('No attachment upload URL configured');
+    }
+    if (attachment.data === undefined) {
+      throw new Error(`Attachment ${attachment.name} has no content`);
+    }
+
+    const body = new FormData();
+    body.append('file', this._toBlob(attachment.data, attachment.mimeType), attachment.name);
+
+    // The browser sets the multipart boundary
+    const headers = await this._headers();
+    delete headers['Content-Type'];
+    let response = await fetch(this.attachmentUploadUrl, { method: 'POST', headers, body, signal });
+
+    if (response.status === 401 && this.authProvider) {
+      headers['Authorization'] = `Bearer ${await this.authProvider.getToken(true)}`;
+      response = await fetch(this.attachmentUploadUrl, { method: 'POST', headers, body, signal });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new ApiError(`Attachment upload failed: ${response.status}`, response.status, errorText);
+    }
+
+    const data = await response.json() as { url?: unknown; id?: unknown } | null;
+    const reference = data?.url ?? data?.id;
+    if (typeof reference !== 'string' || !reference) {
+      throw new Error('Attachment upload returned no url or id');
+    }
+    return reference;
+  }
+
+  /**
+   * Build JSON request headers with authentication.
+   */
+  private async _headers(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // Prefer a bearer token; fall back to the API key header if provided
+    if (this.authProvider) {
+      headers['Authorization'] = `Bearer ${await this.authProvider.getToken()}`;
+    } else if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    return headers;
+  }
+
+  private _fetch(request: ApiRequest, signal?: AbortSignal): Promise<Response> {
+    return fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal
+    });
+  }
+
+  private _toBlob(base64: string, mimeType: string): Blob {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  /**
+   * Give interceptors a chance to recover from a failed request.
+   * Rethrows the error if none of them returns a response.
+   */
+  private async _handleError(error: unknown, request: ApiRequest): Promise<Response> {
+    const err = error instanceof Error ? error : new Error(String(error));
+
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onError) {
+        const recovered = await interceptor.onError(err, request);
+        if (recovered) return recovered;
+      }
+    }
+
+    throw error;
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+   */
+  private _parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+
   /**
    * Update configuration (e.g., after attribute changes).
    */
@@ -85,6 +288,8 @@ export class ApiClient {
     if (config.endpointUrl) this.baseUrl = config.endpointUrl;
     if (config.endpointId) this.endpointId = config.endpointId;
     if (config.apiKey) this.apiKey = config.apiKey;
+    if (config.feedbackUrl !== undefined) this.feedbackUrl = config.feedbackUrl;
+    if (config.attachmentUploadUrl !== undefined) this.attachmentUploadUrl = config.attachmentUploadUrl;
     if (config.enableInlineSources !== undefined) this.enableInlineSources = config.enableInlineSources;
     if (config.enableAgenticWorkflow !== undefined) this.enableAgenticWorkflow = config.enableAgenticWorkflow;
     if (config.debug !== undefined) this.debug = config.debug;
@@ -97,11 +302,13 @@ export class ApiClient {
 export class ApiError extends Error {
   status: number;
   responseText: string;
+  retryAfter: number | null;
 
-  constructor(message: string, status: number, responseText: string) {
+  constructor(message: string, status: number, responseText: string, retryAfter: number | null = null) {
     super(message);
     this.name = 'ApiError';
     this.status = status;
     this.responseText = responseText;
+    this.retryAfter = retryAfter;
   }
 }
@@ -0,0 +1,80 @@
+import type { AuthToken, TokenProvider } from '../types';
+
+/**
+ * Supplies short-lived bearer tokens for API requests.
+ * Tokens are cached until shortly before they expire; concurrent
+ * requests for a token share a single fetch.
+ */
+export class AuthProvider {
+  static readonly EXPIRY_MARGIN = 30 * 1000; // refresh 30s before expiry
+
+  private provider: TokenProvider;
+  private cached: AuthToken | null = null;
+  private pending: Promise<AuthToken> | null = null;
+
+  constructor(provider: TokenProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Create a provider that fetches tokens from a backend endpoint.
+   * The endpoint is called with POST (including cookies) and must return JSON
+   * with `token` or `access_token`, and optionally `expiresIn`/`expires_in`
+   * (seconds) or `expiresAt` (epoch milliseconds).
+   */
+  static fromEndpoint(url: string): AuthProvider {
+    return new AuthProvider(async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Accept': 'application/json' }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Token request failed: ${response.status}`);
+      }
+
+      const data = await response.json() as Record<string, unknown>;
+      const token = data.token ?? data.access_token;
+      if (typeof token !== 'string' || !token) {
+        throw new Error('Token response did not contain a token');
+      }
+
+      const expiresIn = Number(data.expiresIn ?? data.expires_in);
+      const expiresAt = typeof data.expiresAt === 'number'
+        ? data.expiresAt
+        : Number.isFinite(expiresIn) ? Date.now() + expiresIn * 1000 : undefined;
+
+      return { token, expiresAt };
+    });
+  }
+
+  /**
+   * Get a valid token, fetching a new one if none is cached, the cached
+   * one is about to expire, or a refresh is forced.
+   */
+  async getToken(forceRefresh = false): Promise<string> {
+    if (!forceRefresh && this.cached && this._isValid(this.cached)) {
+      return this.cached.token;
+    }
+
+    if (!this.pending) {
+      this.pending = this._fetchToken().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    this.cached = await this.pending;
+    return this.cached.token;
+  }
+
+  private async _fetchToken(): Promise<AuthToken> {
+    const result = await this.provider();
+    return typeof result === 'string' ? { token: result } : result;
+  }
+
+  private _isValid(token: AuthToken): boolean {
+    if (token.expiresAt === undefined) return true;
+    return token.expiresAt - AuthProvider.EXPIRY_MARGIN > Date.now();
+  }
+}
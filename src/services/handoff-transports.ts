@@ -0,0 +1,256 @@
+import type { HandoffTransport, HandoffSession, HandoffHandlers, HandoffStatus, AgentMessage } from '../types';
+
+/**
+ * Event sent by a handoff server (over WebSocket, or in a poll response).
+ */
+type HandoffServerEvent =
+  | ({ type: 'message' } & AgentMessage)
+  | { type: 'status'; status: HandoffStatus; agentName?: string };
+
+/**
+ * Pass a server event on to the transport handlers. Unknown events are ignored.
+ */
+function applyServerEvent(event: unknown, handlers: HandoffHandlers): void {
+  const data = event as HandoffServerEvent | null;
+  if (!data || typeof data !== 'object') return;
+
+  if (data.type === 'message' && typeof data.content === 'string') {
+    handlers.onMessage({
+      id: data.id,
+      content: data.content,
+      agentName: data.agentName,
+      timestamp: data.timestamp
+    });
+  } else if (data.type === 'status' && typeof data.status === 'string') {
+    handlers.onStatus(data.status, data.agentName);
+  }
+}
+
+/**
+ * Talks to a handoff server over a WebSocket.
+ * Sends `{ type: 'start', sessionId, reason, transcript }` once connected,
+ * then `{ type: 'message', content }` per visitor message and
+ * `{ type: 'end' }` when the visitor ends the chat. Receives
+ * `{ type: 'message', content, agentName }` and
+ * `{ type: 'status', status, agentName }` events.
+ */
+export class WebSocketHandoffTransport implements HandoffTransport {
+  private url: string;
+  private socket: WebSocket | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(session: HandoffSession, handlers: HandoffHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let opened = false;
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        socket.send(JSON.stringify({ type: 'start', ...session }));
+        resolve();
+      };
+      socket.onmessage = (e: MessageEvent) => {
+        try {
+          applyServerEvent(JSON.parse(String(e.data)), handlers);
+        } catch (error) {
+          console.warn('[OmnifactWidget] Invalid handoff event:', error);
+        }
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error('Failed to connect to the handoff server'));
+      };
+      socket.onclose = () => {
+        // Report a lost connection, but not our own disconnect()
+        if (opened && this.socket === socket) {
+          this.socket = null;
+          handlers.onStatus('ended');
+        }
+      };
+    });
+  }
+
+  async send(content: string): Promise<void> {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Handoff connection is closed');
+    }
+    this.socket.send(JSON.stringify({ type: 'message', content }));
+  }
+
+  async disconnect(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) return;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'end' }));
+    }
+    socket.close();
+  }
+}
+
+/**
+ * Talks to a handoff server over plain HTTP, for backends without WebSockets.
+ * - `POST {url}` with `{ sessionId, reason, transcript }` returns `{ id }`
+ * - `GET {url}/{id}/events?cursor=...` returns `{ events, cursor }`
+ *   (events as for WebSocketHandoffTransport), polled every `interval` ms
+ * - `POST {url}/{id}/messages` with `{ content }` sends a visitor message
+ * - `DELETE {url}/{id}` ends the chat
+ */
+export class PollingHandoffTransport implements HandoffTransport {
+  static readonly DEFAULT_INTERVAL = 3000;
+
+  private url: string;
+  private interval: number;
+  private id: string | null = null;
+  private cursor: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private handlers: HandoffHandlers | null = null;
+
+  constructor(url: string, interval = PollingHandoffTransport.DEFAULT_INTERVAL) {
+    this.url = url.replace(/\/+$/, '');
+    this.interval = interval;
+  }
+
+  async connect(session: HandoffSession, handlers: HandoffHandlers): Promise<void> {
+    const data = await this._request('POST', this.url, session) as { id?: unknown } | null;
+    if (!data || typeof data.id !== 'string') {
+      throw new Error('Handoff server returned no session id');
+    }
+    this.id = data.id;
+    this.cursor = null;
+    this.handlers = handlers;
+    this._schedule();
+  }
+
+  async send(content: string): Promise<void> {
+    if (!this.id) throw new Error('Handoff connection is closed');
+    await this._request('POST', `${this._sessionUrl(this.id)}/messages`, { content });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const id = this.id;
+    this.id = null;
+    this.handlers = null;
+    if (id) {
+      await this._request('DELETE', this._sessionUrl(id)).catch(error => {
+        console.warn('[OmnifactWidget] Failed to end handoff:', error);
+      });
+    }
+  }
+
+  private _schedule(): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this._poll();
+    }, this.interval);
+  }
+
+  private async _poll(): Promise<void> {
+    const id = this.id;
+    if (!id) return;
+
+    try {
+      const query = this.cursor !== null ? `?cursor=${encodeURIComponent(this.cursor)}` : '';
+      const data = await this._request('GET', `${this._sessionUrl(id)}/events${query}`) as
+        { events?: unknown[]; cursor?: unknown } | null;
+      if (this.id !== id || !this.handlers) return;
+
+      if (data && data.cursor !== undefined && data.cursor !== null) this.cursor = String(data.cursor);
+      const handlers = this.handlers;
+      (data?.events || []).forEach(event => applyServerEvent(event, handlers));
+    } catch (error) {
+      console.warn('[OmnifactWidget] Failed to poll handoff events:', error);
+    }
+
+    if (this.id === id) this._schedule();
+  }
+
+  private async _request(method: string, url: string, body?: unknown): Promise<unknown> {
+    const response = await fetch(url, {
+      method,
+      credentials: 'same-origin',
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    if (!response.ok) {
+      throw new Error(`Handoff request failed: ${response.status} ${response.statusText}`);
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  private _sessionUrl(id: string): string {
+    return `${this.url}/${encodeURIComponent(id)}`;
+  }
+}
+
+/**
+ * Options for the mock transport.
+ */
+export interface MockHandoffOptions {
+  agentName?: string;
+  /** Delay before the agent joins and answers (ms). */
+  delay?: number;
+}
+
+/**
+ * Simulated support agent for trying out handoff without a backend
+ * (`handoff-url="mock"`). Joins after a short wait and acknowledges
+ * each message.
+ */
+export class MockHandoffTransport implements HandoffTransport {
+  private agentName: string;
+  private delay: number;
+  private handlers: HandoffHandlers | null = null;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(options: MockHandoffOptions = {}) {
+    this.agentName = options.agentName || 'Support agent';
+    this.delay = options.delay ?? 1500;
+  }
+
+  async connect(session: HandoffSession, handlers: HandoffHandlers): Promise<void> {
+    this.handlers = handlers;
+    handlers.onStatus('waiting');
+    this._later(() => {
+      handlers.onStatus('connected', this.agentName);
+      const questions = session.transcript.filter(m => m.role === 'user').length;
+      handlers.onMessage({
+        content: `Hi, I'm ${this.agentName}. I've read your conversation so far` +
+          (questions ? ` (${questions} question${questions === 1 ? '' : 's'})` : '') +
+          '. How can I help?',
+        agentName: this.agentName
+      });
+    }, this.delay);
+  }
+
+  async send(content: string): Promise<void> {
+    if (!this.handlers) throw new Error('Handoff connection is closed');
+    const handlers = this.handlers;
+    this._later(() => handlers.onMessage({
+      content: `Thanks, I got your message: "${content}"`,
+      agentName: this.agentName
+    }), this.delay);
+  }
+
+  async disconnect(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.handlers = null;
+  }
+
+  private _later(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
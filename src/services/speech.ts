@@ -0,0 +1,248 @@
+import type { SpeechRecognizer, SpeechRecognizerHandlers } from '../types';
+
+/**
+ * The parts of the Web Speech recognition API used here
+ * (not part of TypeScript's DOM types).
+ */
+interface BrowserSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+/** Recognition errors that just mean nothing was said or listening was stopped. */
+const IGNORED_ERRORS = ['no-speech', 'aborted'];
+
+function getRecognitionConstructor(): BrowserSpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const w = window as unknown as Record<string, BrowserSpeechRecognitionConstructor | undefined>;
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+}
+
+/**
+ * Dictation through the browser's Web Speech API (Chrome, Edge, Safari 14.1+).
+ */
+export class WebSpeechRecognizer implements SpeechRecognizer {
+  private lang: string;
+  private recognition: BrowserSpeechRecognition | null = null;
+
+  /**
+   * @param lang BCP 47 language tag; defaults to the page language.
+   */
+  constructor(lang = '') {
+    this.lang = lang;
+  }
+
+  /**
+   * Whether the browser supports speech recognition.
+   */
+  static isSupported(): boolean {
+    return getRecognitionConstructor() !== null;
+  }
+
+  start(handlers: SpeechRecognizerHandlers): void {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) {
+      throw new Error('Speech recognition is not supported in this browser');
+    }
+
+    this.recognition?.abort();
+    const recognition = new Recognition();
+    this.recognition = recognition;
+    if (this.lang) recognition.lang = this.lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = event => {
+      let transcript = '';
+      for (let i = 0; i < event.results.length; i++) {
+        transcript += event.results[i][0].transcript;
+      }
+      handlers.onResult(transcript.trim());
+    };
+    recognition.onerror = event => {
+      if (IGNORED_ERRORS.includes(event.error)) return;
+      handlers.onError(new Error(event.error === 'not-allowed'
+        ? 'Microphone access was denied'
+        : `Speech recognition failed: ${event.error}`));
+    };
+    recognition.onend = () => {
+      if (this.recognition === recognition) this.recognition = null;
+      handlers.onEnd();
+    };
+
+    recognition.start();
+  }
+
+  stop(): void {
+    this.recognition?.stop();
+  }
+}
+
+/**
+ * Options for reading text aloud.
+ */
+export interface SpeechReaderOptions {
+  /** Voice name (or part of it), e.g. `Samantha` or `Google Deutsch`. */
+  voice?: string;
+  /** Speaking rate, 0.1 to 10 (1 is normal). */
+  rate?: number;
+  /** BCP 47 language tag; picks a matching voice if `voice` isn't found. */
+  lang?: string;
+}
+
+/**
+ * A text being read: `append()` may add to it until `finish()`.
+ */
+interface Reading {
+  pending: number;
+  finished: boolean;
+  onEnd: (() => void) | null;
+}
+
+/**
+ * Reads text aloud with the browser's speech synthesis. Text can be
+ * added while it is being read (for answers that are still streaming).
+ */
+export class SpeechReader {
+  /** Longer texts are split, as some browsers stop long utterances early. */
+  static readonly MAX_UTTERANCE_LENGTH = 200;
+
+  private options: SpeechReaderOptions;
+  private reading: Reading | null = null;
+
+  constructor(options: SpeechReaderOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether the browser supports speech synthesis.
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window &&
+      typeof SpeechSynthesisUtterance !== 'undefined';
+  }
+
+  /**
+   * Whether something is being read (or waiting for more text).
+   */
+  get speaking(): boolean {
+    return this.reading !== null;
+  }
+
+  /**
+   * Read a text, replacing whatever is being read.
+   * `onEnd` is called when it is done or stopped.
+   */
+  speak(text: string, onEnd?: () => void): void {
+    this.start(onEnd);
+    this.append(text);
+    this.finish();
+  }
+
+  /**
+   * Start a new reading that text is added to with `append()`.
+   */
+  start(onEnd?: () => void): void {
+    this.stop();
+    this.reading = { pending: 0, finished: false, onEnd: onEnd || null };
+  }
+
+  /**
+   * Add text to the current reading.
+   */
+  append(text: string): void {
+    const reading = this.reading;
+    if (!reading || !SpeechReader.isSupported()) return;
+
+    for (const chunk of this._split(text)) {
+      const utterance = new SpeechSynthesisUtterance(chunk);
+      const voice = this._voice();
+      if (voice) utterance.voice = voice;
+      if (this.options.lang) utterance.lang = voice ? voice.lang : this.options.lang;
+      if (this.options.rate) utterance.rate = this.options.rate;
+
+      const done = () => {
+        reading.pending--;
+        this._endIfDone(reading);
+      };
+      utterance.onend = done;
+      utterance.onerror = done;
+
+      reading.pending++;
+      window.speechSynthesis.speak(utterance);
+    }
+  }
+
+  /**
+   * Mark the current reading complete; it ends once everything is read.
+   */
+  finish(): void {
+    if (!this.reading) return;
+    this.reading.finished = true;
+    this._endIfDone(this.reading);
+  }
+
+  /**
+   * Stop reading.
+   */
+  stop(): void {
+    const reading = this.reading;
+    if (!reading) return;
+    this.reading = null;
+    // Also cancels speech of the host page; there is only one queue
+    if (SpeechReader.isSupported()) window.speechSynthesis.cancel();
+    reading.onEnd?.();
+  }
+
+  private _endIfDone(reading: Reading): void {
+    if (this.reading !== reading || !reading.finished || reading.pending > 0) return;
+    this.reading = null;
+    reading.onEnd?.();
+  }
+
+  private _voice(): SpeechSynthesisVoice | null {
+    const voices = window.speechSynthesis.getVoices();
+    const name = (this.options.voice || '').toLowerCase();
+    const lang = (this.options.lang || '').toLowerCase();
+
+    return (name && voices.find(v => v.name.toLowerCase() === name)) ||
+      (name && voices.find(v => v.name.toLowerCase().includes(name))) ||
+      (lang && voices.find(v => v.lang.toLowerCase().startsWith(lang))) ||
+      null;
+  }
+
+  /**
+   * Split text into utterances at line and sentence ends
+   * (and between words in overly long sentences).
+   */
+  private _split(text: string): string[] {
+    const max = SpeechReader.MAX_UTTERANCE_LENGTH;
+    const words = new RegExp(`.{1,${max}}(?:\\s+|$)|\\S+`, 'g');
+    const chunks: string[] = [];
+
+    for (const line of text.split('\n')) {
+      let current = '';
+      for (const sentence of line.match(/[^.!?]+[.!?]*\s*/g) || []) {
+        const pieces = sentence.length > max ? sentence.match(words) || [] : [sentence];
+        for (const piece of pieces) {
+          if (current && current.length + piece.length > max) {
+            chunks.push(current.trim());
+            current = '';
+          }
+          current += piece;
+        }
+      }
+      if (current.trim()) chunks.push(current.trim());
+    }
+    return chunks.filter(Boolean);
+  }
+}
@@ -1,4 +1,19 @@
-import type { StreamResult, StreamCallbacks, LegacyReferences, InlineSource } from '../types';
+import { SSEParser } from './sse-parser';
+import { AgentStepTracker } from './agent-step-tracker';
+import type { SSEEvent } from './sse-parser';
+import type { StreamResult, StreamCallbacks, LegacyReferences, InlineSource, AgentStep, HandoffRequest } from '../types';
+
+/**
+ * Mutable state accumulated while processing a stream.
+ */
+interface StreamState {
+  content: string;
+  messageId: string | null;
+  references: LegacyReferences | null;
+  sources: InlineSource[];
+  steps: AgentStepTracker;
+  done: boolean;
+}
 
 /**
  * Server-Sent Events (SSE) handler for processing streaming responses.
@@ -23,11 +38,112 @@ export class SSEHandler {
     }
   }
 
+  /**
+   * Process a chat response, streaming it if it is an event stream.
+   * Falls back to the JSON path when the response has no body or declares a
+   * content type other than text/event-stream (e.g. a proxy buffered the stream).
+   */
+  async processResponse(
+    response: Response,
+    callbacks: StreamCallbacks,
+    signal?: AbortSignal,
+    resumeFrom?: StreamResult
+  ): Promise<StreamResult> {
+    const contentType = response.headers.get('content-type');
+    if (response.body && (!contentType || contentType.includes('text/event-stream'))) {
+      return this.processStream(response, callbacks, signal, resumeFrom);
+    }
+
+    this._log('non-streaming response', contentType);
+    const text = await response.text();
+    let data: unknown = {};
+    if (text.trim()) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Plain text answer
+        data = { content: text };
+      }
+    }
+    return this.processJson(data, callbacks);
+  }
+
+  /**
+   * Process a non-streaming JSON response.
+   * Maps it into the same result shape and callbacks as a stream.
+   */
+  processJson(data: unknown, callbacks: StreamCallbacks): StreamResult {
+    const { onChunk, onReferences, onSource, onComplete } = callbacks;
+    this._log('json', data);
+
+    const result = this._mapJsonResult(data);
+
+    if (result.sources && onSource) {
+      result.sources.forEach(source => onSource(source));
+    }
+    if (result.references && onReferences) {
+      onReferences(result.references);
+    }
+    if (result.content && onChunk) {
+      onChunk(result.content, result.content, result.messageId);
+    }
+    if (onComplete) {
+      onComplete(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Map a JSON chat response into a stream result.
+   * Accepts the content at the top level or nested under `message`.
+   */
+  private _mapJsonResult(data: unknown): StreamResult {
+    const obj = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    const message = (obj.message && typeof obj.message === 'object' ? obj.message : {}) as Record<string, unknown>;
+
+    const pick = (key: string): unknown => obj[key] ?? message[key];
+
+    const content = pick('content');
+    const messageId = pick('messageId') ?? pick('id');
+    const rawReferences = pick('references') as LegacyReferences['references'] | LegacyReferences | undefined;
+    const rawSources = pick('sources');
+    const rawSteps = pick('steps');
+
+    let references: LegacyReferences | null = null;
+    if (rawReferences && typeof rawReferences === 'object') {
+      // Either the full legacy payload or just its { documents, documentParts } part
+      references = 'references' in rawReferences || 'messageId' in rawReferences
+        ? rawReferences as LegacyReferences
+        : { messageId: typeof messageId === 'string' ? messageId : undefined, ...rawReferences };
+    }
+
+    const sources = Array.isArray(rawSources) && rawSources.length > 0 ? rawSources as InlineSource[] : null;
+
+    return {
+      content: typeof content === 'string' ? content : '',
+      messageId: typeof messageId === 'string' ? messageId : null,
+      references,
+      sources,
+      steps: Array.isArray(rawSteps) && rawSteps.length > 0 ? rawSteps as AgentStep[] : null
+    };
+  }
+
   /**
    * Process a streaming response.
+   * If the signal is aborted, reading stops and the partial result is
+   * completed with `interrupted: true` instead of raising an error.
+   * Throws a StreamInterruptedError if the connection drops or the body
+   * ends before the `done` event. Pass the partial result of an interrupted stream as `resumeFrom` to
+   * continue accumulating the same message on a reconnected stream.
    */
-  async processStream(response: Response, callbacks: StreamCallbacks): Promise<StreamResult> {
-    const { onChunk, onReferences, onSource, onComplete, onError } = callbacks;
+  async processStream(
+    response: Response,
+    callbacks: StreamCallbacks,
+    signal?: AbortSignal,
+    resumeFrom?: StreamResult
+  ): Promise<StreamResult> {
+    const { onComplete, onError } = callbacks;
 
     if (this.debug) {
       console.log('[SSE Debug] Starting stream processing...');
@@ -35,139 +151,231 @@ export class SSEHandler {
 
     const reader = response.body!.getReader();
     const decoder = new TextDecoder();
+    const parser = new SSEParser(resumeFrom?.lastEventId || '');
 
-    let buffer = '';
-    let currentEvent: string | null = null;
-    let accumulatedContent = '';
-    let messageId: string | null = null;
-    let references: LegacyReferences | null = null;
-    const sources: InlineSource[] = [];
+    // Cancel the reader on abort so a pending read() settles immediately
+    const onAbort = (): void => {
+      reader.cancel().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const state: StreamState = {
+      content: resumeFrom?.content || '',
+      messageId: resumeFrom?.messageId || null,
+      references: resumeFrom?.references || null,
+      sources: resumeFrom?.sources ? [...resumeFrom.sources] : [],
+      steps: new AgentStepTracker(resumeFrom?.steps || []),
+      done: false
+    };
+
+    const buildResult = (): StreamResult => {
+      const steps = state.steps.steps;
+      return {
+        content: state.content,
+        messageId: state.messageId,
+        references: state.references,
+        sources: state.sources.length > 0 ? state.sources : null,
+        steps: steps.length > 0 ? steps : null,
+        lastEventId: parser.lastEventId || null
+      };
+    };
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (readError) {
+          if (signal?.aborted) throw readError;
+          // Connection dropped mid-stream - report what we have so it can be resumed
+          throw new StreamInterruptedError(buildResult(), readError, parser.retry);
+        }
+        const { done, value } = chunk;
 
-        if (done) {
+        if (done || signal?.aborted) {
           break;
         }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-
-          if (!trimmedLine) {
-            // Empty line - event boundary
-            continue;
-          }
+        for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+          this._handleEvent(event, state, callbacks);
 
-          if (trimmedLine.startsWith('event: ')) {
-            currentEvent = trimmedLine.slice(7).trim();
-            this._log('Event', currentEvent);
-            continue;
-          }
-
-          if (trimmedLine.startsWith('id: ')) {
-            // Skip ID lines
-            continue;
-          }
-
-          if (trimmedLine.startsWith('data: ')) {
-            const dataStr = trimmedLine.slice(6);
-
-            if (currentEvent === 'assistant_write') {
-              try {
-                const data = JSON.parse(dataStr) as { content?: string; messageId?: string };
-                this._log('assistant_write', data);
-                if (data.content) {
-                  messageId = data.messageId || messageId;
-                  accumulatedContent += data.content;
-
-                  if (onChunk) {
-                    onChunk(data.content, accumulatedContent, messageId);
-                  }
-                }
-              } catch {
-                // If not valid JSON, treat as raw content
-                this._log('assistant_write (raw)', dataStr);
-                accumulatedContent += dataStr;
-                if (onChunk) {
-                  onChunk(dataStr, accumulatedContent, messageId);
-                }
-              }
-            } else if (currentEvent === 'references') {
-              // Legacy references format
-              try {
-                const data = JSON.parse(dataStr) as LegacyReferences;
-                this._log('references', data);
-                references = data;
-                if (onReferences) {
-                  onReferences(data);
-                }
-              } catch (e) {
-                console.warn('[SSEHandler] Failed to parse references:', e);
-              }
-            } else if (currentEvent === 'message_source') {
-              // Inline source format
-              try {
-                const data = JSON.parse(dataStr) as InlineSource;
-                this._log('message_source', data);
-                sources.push(data);
-                if (onSource) {
-                  onSource(data);
-                }
-              } catch (e) {
-                console.warn('[SSEHandler] Failed to parse source:', e);
-              }
-            } else if (currentEvent === 'done') {
-              // Stream complete
-              const result: StreamResult = {
-                content: accumulatedContent,
-                messageId,
-                references,
-                sources: sources.length > 0 ? sources : null
-              };
-              this._log('done', result);
-              if (onComplete) {
-                onComplete(result);
-              }
-              return result;
-            } else if (currentEvent === 'error') {
-              this._log('error', dataStr);
-              try {
-                const errorData = JSON.parse(dataStr) as { message?: string };
-                throw new Error(errorData.message || 'Stream error');
-              } catch (e) {
-                if (e instanceof Error && e.message !== 'Stream error') throw e;
-                throw new Error(dataStr || 'Stream error');
-              }
-            } else {
-              // Log unknown event types
-              this._log(`unknown event (${currentEvent})`, dataStr);
+          if (state.done) {
+            // Stream complete
+            state.steps.complete();
+            const result = buildResult();
+            this._log('done', result);
+            if (onComplete) {
+              onComplete(result);
             }
+            return result;
           }
         }
       }
 
-      // If we reach here without a done event, still complete
-      const result: StreamResult = {
-        content: accumulatedContent,
-        messageId,
-        references,
-        sources: sources.length > 0 ? sources : null
-      };
+      if (!signal?.aborted) {
+        // The body ended without a done event (e.g. a proxy closed the connection)
+        throw new StreamInterruptedError(buildResult(), new Error('Stream ended without a done event'), parser.retry);
+      }
+
+      // Stopped by the caller - keep what has been received so far
+      state.steps.complete();
+      const result: StreamResult = { ...buildResult(), interrupted: true };
+      this._log('aborted', result);
       if (onComplete) {
         onComplete(result);
       }
-
       return result;
     } catch (error) {
+      // Aborted by the caller - keep what has been received so far
+      if (signal?.aborted) {
+        state.steps.complete();
+        const result: StreamResult = { ...buildResult(), interrupted: true };
+        this._log('aborted', result);
+        if (onComplete) {
+          onComplete(result);
+        }
+        return result;
+      }
+
       if (onError && error instanceof Error) {
         onError(error);
       }
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Apply a single parsed event to the stream state and notify callbacks.
+   */
+  private _handleEvent(event: SSEEvent, state: StreamState, callbacks: StreamCallbacks): void {
+    const { onChunk, onReferences, onSource, onAgentStep, onHandoff } = callbacks;
+    const { type, data } = event;
+
+    switch (type) {
+      case 'assistant_write': {
+        try {
+          const parsed = JSON.parse(data) as { content?: string; messageId?: string };
+          this._log('assistant_write', parsed);
+          if (parsed.content) {
+            state.messageId = parsed.messageId || state.messageId;
+            state.content += parsed.content;
+            if (onChunk) {
+              onChunk(parsed.content, state.content, state.messageId);
+            }
+          }
+        } catch {
+          // If not valid JSON, treat as raw content
+          this._log('assistant_write (raw)', data);
+          state.content += data;
+          if (onChunk) {
+            onChunk(data, state.content, state.messageId);
+          }
+        }
+        break;
+      }
+
+      case 'references': {
+        // Legacy references format
+        try {
+          const parsed = JSON.parse(data) as LegacyReferences;
+          this._log('references', parsed);
+          state.references = parsed;
+          if (onReferences) {
+            onReferences(parsed);
+          }
+        } catch (e) {
+          console.warn('[SSEHandler] Failed to parse references:', e);
+        }
+        break;
+      }
+
+      case 'message_source': {
+        // Inline source format
+        try {
+          const parsed = JSON.parse(data) as InlineSource;
+          this._log('message_source', parsed);
+          state.sources.push(parsed);
+          if (onSource) {
+            onSource(parsed);
+          }
+        } catch (e) {
+          console.warn('[SSEHandler] Failed to parse source:', e);
+        }
+        break;
+      }
+
+      case 'handoff': {
+        // The assistant asks to hand the conversation to a human
+        let request: HandoffRequest = {};
+        try {
+          request = JSON.parse(data) as HandoffRequest;
+        } catch {
+          // No payload
+        }
+        this._log('handoff', request);
+        if (onHandoff) {
+          onHandoff(request || {});
+        }
+        break;
+      }
+
+      case 'done':
+        state.done = true;
+        break;
+
+      case 'error': {
+        this._log('error', data);
+        let message = data || 'Stream error';
+        try {
+          const parsed = JSON.parse(data) as { message?: string };
+          if (parsed.message) message = parsed.message;
+        } catch {
+          // Not JSON - use the raw data as the message
+        }
+        throw new Error(message);
+      }
+
+      default: {
+        if (AgentStepTracker.isAgentEvent(type)) {
+          // Agentic workflow step (planning, tool call, retrieval, ...)
+          let payload: unknown = data;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            // Plain text step description
+          }
+          this._log(type, payload);
+          const step = state.steps.apply(type, payload);
+          if (step && onAgentStep) {
+            onAgentStep(step, state.steps.steps);
+          }
+          break;
+        }
+
+        // Log unknown event types
+        this._log(`unknown event (${type})`, data);
+      }
     }
   }
 }
+
+/**
+ * Error raised when the connection drops before the stream completed.
+ * Carries the partial result (including the last event id) for resuming.
+ */
+export class StreamInterruptedError extends Error {
+  partial: StreamResult;
+  cause: unknown;
+  /** Reconnection delay in milliseconds requested via the stream's `retry` field. */
+  retryAfter: number | null;
+
+  constructor(partial: StreamResult, cause: unknown, retryAfter: number | null = null) {
+    super('Stream interrupted');
+    this.name = 'StreamInterruptedError';
+    this.partial = partial;
+    this.cause = cause;
+    this.retryAfter = retryAfter;
+  }
+}
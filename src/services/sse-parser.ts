@@ -0,0 +1,180 @@
+/**
+ * A single dispatched Server-Sent Event.
+ */
+export interface SSEEvent {
+  /** Event type (`message` if the event had no `event:` field). */
+  type: string;
+  /** Data lines joined with `\n`. */
+  data: string;
+  /** Last event id seen so far (persists across events, as in EventSource). */
+  lastEventId: string;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format, following the
+ * WHATWG HTML "event stream interpretation" rules:
+ * - lines end with CRLF, LF or CR (also when split across chunks)
+ * - lines starting with `:` are comments
+ * - `field:value`, `field: value` (one leading space stripped) and bare `field`
+ * - multiple `data` lines are joined with `\n`
+ * - events are dispatched on blank lines; events without data are dropped
+ * - `id` values containing NULL are ignored; `retry` must be all digits
+ *
+ * Feed decoded text with `feed()`; it returns the events completed so far.
+ */
+export class SSEParser {
+  private buffer = '';
+  private skipLineFeed = false;
+  private isStart = true;
+
+  private eventType = '';
+  private data = '';
+  private hasData = false;
+  private _lastEventId: string;
+  private _retry: number | null = null;
+
+  constructor(lastEventId = '') {
+    this._lastEventId = lastEventId;
+  }
+
+  /**
+   * Last event id received (or the one the parser was created with).
+   */
+  get lastEventId(): string {
+    return this._lastEventId;
+  }
+
+  /**
+   * Reconnection time in milliseconds requested by the server, if any.
+   */
+  get retry(): number | null {
+    return this._retry;
+  }
+
+  /**
+   * Parse a chunk of decoded text and return completed events.
+   */
+  feed(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+
+    // A leading byte order mark is ignored
+    if (this.isStart && this.buffer.length > 0) {
+      if (this.buffer.charCodeAt(0) === 0xfeff) {
+        this.buffer = this.buffer.slice(1);
+      }
+      this.isStart = false;
+    }
+
+    const events: SSEEvent[] = [];
+    let start = 0;
+
+    while (start < this.buffer.length) {
+      // LF directly after a CR belongs to the same line ending
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (this.buffer[start] === '\n') {
+          start++;
+          continue;
+        }
+      }
+
+      const end = this._findLineEnd(start);
+      if (end === -1) break;
+
+      const line = this.buffer.slice(start, end);
+      if (this.buffer[end] === '\r') {
+        this.skipLineFeed = true;
+      }
+      start = end + 1;
+
+      const event = this._processLine(line);
+      if (event) events.push(event);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /**
+   * Reset all state (except the last event id) for a new stream.
+   */
+  reset(): void {
+    this.buffer = '';
+    this.skipLineFeed = false;
+    this.isStart = true;
+    this.eventType = '';
+    this.data = '';
+    this.hasData = false;
+  }
+
+  private _findLineEnd(from: number): number {
+    for (let i = from; i < this.buffer.length; i++) {
+      const c = this.buffer[i];
+      if (c === '\n' || c === '\r') return i;
+    }
+    return -1;
+  }
+
+  private _processLine(line: string): SSEEvent | null {
+    // Blank line - dispatch the event
+    if (line === '') {
+      return this._dispatch();
+    }
+
+    // Comment
+    if (line[0] === ':') {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    let field: string;
+    let value: string;
+    if (colon === -1) {
+      field = line;
+      value = '';
+    } else {
+      field = line.slice(0, colon);
+      value = line.slice(colon + 1);
+      if (value[0] === ' ') value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data += value + '\n';
+        this.hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this._lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this._retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+
+    return null;
+  }
+
+  private _dispatch(): SSEEvent | null {
+    const type = this.eventType || 'message';
+    const hasData = this.hasData;
+    const data = this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data;
+
+    this.eventType = '';
+    this.data = '';
+    this.hasData = false;
+
+    if (!hasData) return null;
+
+    return { type, data, lastEventId: this._lastEventId };
+  }
+}
@@ -0,0 +1,125 @@
+import type { StorageAdapter, StorageLimits } from '../types';
+
+/**
+ * Stores values as JSON in `localStorage` or `sessionStorage`.
+ * Both are small and synchronous, so conversations are size-limited.
+ */
+export class WebStorageAdapter implements StorageAdapter {
+  static readonly DEFAULT_LIMITS: StorageLimits = {
+    maxMessages: 100,
+    maxMessageLength: 10000
+  };
+
+  readonly limits: StorageLimits;
+  private storage: Storage;
+
+  constructor(storage: Storage, limits: StorageLimits = WebStorageAdapter.DEFAULT_LIMITS) {
+    this.storage = storage;
+    this.limits = limits;
+  }
+
+  async get(key: string): Promise<unknown> {
+    const data = this.storage.getItem(key);
+    if (data === null) return null;
+    try {
+      return JSON.parse(data);
+    } catch {
+      // Hand back the raw text so it can be quarantined
+      return data;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.storage.setItem(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Keeps values in memory for the lifetime of the page.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  async get(key: string): Promise<unknown> {
+    const data = this.values.get(key);
+    return data === undefined ? null : JSON.parse(data);
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    // Store a copy so later changes to the value are not reflected
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Stores values in an IndexedDB object store. Holds far more than web
+ * storage, so conversations are kept in full.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  static readonly STORE_NAME = 'entries';
+
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'omnifact-chat') {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Check whether IndexedDB is available in this browser.
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<unknown> {
+    const result = await this._request('readonly', store => store.get(key));
+    return result === undefined ? null : result;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this._request('readwrite', store => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this._request('readwrite', store => store.delete(key));
+  }
+
+  private async _request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBStorageAdapter.STORE_NAME, mode);
+      const request = run(transaction.objectStore(IndexedDBStorageAdapter.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBStorageAdapter.STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+      });
+      // Allow retrying after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
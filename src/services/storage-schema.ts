@@ -0,0 +1,235 @@
+import type { StoredState, ChatMessage, ConversationSummary } from '../types';
+
+/**
+ * Conversation record as written by the current schema version.
+ */
+export interface StoredData extends StoredState {
+  sessionId: string;
+  createdAt: number;
+  lastUpdated: number | null;
+  version: number;
+}
+
+/**
+ * Index of stored conversations.
+ */
+export interface ConversationIndex {
+  activeId: string | null;
+  conversations: ConversationSummary[];
+  version: number;
+}
+
+/**
+ * Stored payload that failed validation or migration, kept for inspection.
+ */
+export interface QuarantinedEntry {
+  key: string;
+  reason: string;
+  quarantinedAt: number;
+  payload: unknown;
+}
+
+/**
+ * Upgrades a conversation record from one schema version to the next.
+ */
+interface Migration {
+  from: number;
+  to: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Ordered migrations. Add a step here (and bump VERSION) whenever the
+ * stored shape changes; never edit a released step.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // v2: records carry their creation time (previously only in the index)
+    from: 1,
+    to: 2,
+    migrate: data => {
+      const messages = Array.isArray(data.messages) ? data.messages as Partial<ChatMessage>[] : [];
+      const first = messages.find(m => typeof m?.timestamp === 'number');
+      return {
+        ...data,
+        createdAt: first?.timestamp ?? (typeof data.lastUpdated === 'number' ? data.lastUpdated : Date.now()),
+        version: 2
+      };
+    }
+  },
+  {
+    // v3: file contents of attachments are no longer stored (thumbnails are)
+    from: 2,
+    to: 3,
+    migrate: data => ({
+      ...data,
+      messages: Array.isArray(data.messages)
+        ? StorageSchema.withoutAttachmentData(data.messages as ChatMessage[])
+        : data.messages,
+      version: 3
+    })
+  }
+];
+
+/**
+ * Error for stored data that can't be read or migrated.
+ */
+export class StorageSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSchemaError';
+  }
+}
+
+/**
+ * Versioned schema of stored chat data. Validates stored payloads and
+ * brings older conversation records up to the current version.
+ */
+export class StorageSchema {
+  static readonly VERSION = 3;
+  static readonly INDEX_VERSION = 1;
+
+  /**
+   * Migrate a stored conversation record to the current version.
+   * Throws a StorageSchemaError if the payload is corrupted, from a newer
+   * version or has no migration path.
+   */
+  static migrate(raw: unknown): { data: StoredData; migrated: boolean } {
+    if (!isObject(raw)) {
+      throw new StorageSchemaError('Conversation record is not an object');
+    }
+
+    // Records written before versioning was introduced count as v1
+    let data = raw;
+    let version = typeof data.version === 'number' ? data.version : 1;
+    if (!Number.isInteger(version) || version < 1) {
+      throw new StorageSchemaError(`Invalid schema version: ${String(data.version)}`);
+    }
+    if (version > StorageSchema.VERSION) {
+      throw new StorageSchemaError(`Schema version ${version} is newer than supported (${StorageSchema.VERSION})`);
+    }
+
+    const migrated = version < StorageSchema.VERSION;
+    while (version < StorageSchema.VERSION) {
+      const step = MIGRATIONS.find(m => m.from === version);
+      if (!step) {
+        throw new StorageSchemaError(`No migration from schema version ${version}`);
+      }
+      data = step.migrate(data);
+      version = step.to;
+    }
+
+    const problem = StorageSchema.validate(data);
+    if (problem) {
+      throw new StorageSchemaError(`Invalid conversation record: ${problem}`);
+    }
+    return { data: data as unknown as StoredData, migrated };
+  }
+
+  /**
+   * Check a conversation record against the current schema.
+   * Returns a description of the first problem, or null if it is valid.
+   */
+  static validate(data: unknown): string | null {
+    if (!isObject(data)) return 'not an object';
+    if (data.version !== StorageSchema.VERSION) return `version is ${String(data.version)}`;
+    if (typeof data.sessionId !== 'string' || !data.sessionId) return 'missing sessionId';
+    if (typeof data.createdAt !== 'number') return 'missing createdAt';
+    if (data.lastUpdated !== null && typeof data.lastUpdated !== 'number') return 'invalid lastUpdated';
+    if (!Array.isArray(data.messages)) return 'messages is not an array';
+    return validateMessages(data.messages, 'messages');
+  }
+
+  /**
+   * Check a list of messages (including their variants). Returns a
+   * description of the first problem, or null if they are valid.
+   */
+  static validateMessages(messages: unknown): string | null {
+    if (!Array.isArray(messages)) return 'messages is not an array';
+    return validateMessages(messages, 'messages');
+  }
+
+  /**
+   * Copy of messages (and their variants) without the inline file
+   * contents of attachments, which would quickly fill up storage.
+   */
+  static withoutAttachmentData(messages: ChatMessage[]): ChatMessage[] {
+    return messages.map(message => {
+      if (!isObject(message)) return message;
+      const copy: ChatMessage = { ...message };
+      if (Array.isArray(message.attachments)) {
+        copy.attachments = message.attachments.map(attachment => {
+          if (!isObject(attachment)) return attachment;
+          const { data: _data, ...rest } = attachment;
+          return rest;
+        });
+      }
+      if (Array.isArray(message.variants)) {
+        copy.variants = message.variants.map(variant =>
+          Array.isArray(variant) ? StorageSchema.withoutAttachmentData(variant) : variant
+        );
+      }
+      return copy;
+    });
+  }
+
+  /**
+   * Check the conversation index. Returns a description of the first
+   * problem, or null if it is valid.
+   */
+  static validateIndex(data: unknown): string | null {
+    if (!isObject(data)) return 'not an object';
+    if (data.version !== StorageSchema.INDEX_VERSION) return `version is ${String(data.version)}`;
+    if (data.activeId !== null && typeof data.activeId !== 'string') return 'invalid activeId';
+    if (!Array.isArray(data.conversations)) return 'conversations is not an array';
+
+    for (let i = 0; i < data.conversations.length; i++) {
+      const entry = data.conversations[i] as unknown;
+      if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.title !== 'string' ||
+          typeof entry.createdAt !== 'number' || typeof entry.updatedAt !== 'number') {
+        return `invalid conversation entry at ${i}`;
+      }
+    }
+    return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateMessages(messages: unknown[], path: string): string | null {
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const at = `${path}[${i}]`;
+    if (!isObject(message)) return `${at} is not an object`;
+    if (typeof message.id !== 'string') return `${at}.id is not a string`;
+    if (message.role !== 'user' && message.role !== 'assistant' && message.role !== 'agent') return `${at}.role is invalid`;
+    if (typeof message.content !== 'string') return `${at}.content is not a string`;
+    if (typeof message.timestamp !== 'number') return `${at}.timestamp is not a number`;
+    if (message.agentName !== undefined && typeof message.agentName !== 'string') return `${at}.agentName is not a string`;
+    if (message.serverId !== undefined && typeof message.serverId !== 'string') return `${at}.serverId is not a string`;
+
+    if (message.attachments !== undefined) {
+      if (!Array.isArray(message.attachments)) return `${at}.attachments is not an array`;
+      for (let a = 0; a < message.attachments.length; a++) {
+        const attachment = message.attachments[a] as unknown;
+        if (!isObject(attachment) || typeof attachment.id !== 'string' || typeof attachment.name !== 'string' ||
+            typeof attachment.mimeType !== 'string' || typeof attachment.size !== 'number') {
+          return `${at}.attachments[${a}] is invalid`;
+        }
+      }
+    }
+
+    if (message.variants !== undefined) {
+      if (!Array.isArray(message.variants)) return `${at}.variants is not an array`;
+      for (let v = 0; v < message.variants.length; v++) {
+        const variant = message.variants[v] as unknown;
+        if (!Array.isArray(variant)) return `${at}.variants[${v}] is not an array`;
+        const problem = validateMessages(variant, `${at}.variants[${v}]`);
+        if (problem) return problem;
+      }
+    }
+  }
+  return null;
+}
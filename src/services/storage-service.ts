@@ -1,90 +1,468 @@
-import type { StoredState, ChatMessage } from '../types';
-
-interface StoredData extends StoredState {
-  lastUpdated: number | null;
-  version: number;
-}
+import { WebStorageAdapter, MemoryStorageAdapter, IndexedDBStorageAdapter } from './storage-adapters';
+import { StorageSchema } from './storage-schema';
+import type { StoredData, ConversationIndex, QuarantinedEntry } from './storage-schema';
+import type { StoredState, ChatMessage, ConversationSummary, StorageAdapter, StorageType } from '../types';
 
 /**
- * Storage service for persisting chat state to localStorage.
- * Handles session management, message history, and cleanup.
+ * Storage service for persisting chat state through a storage adapter
+ * (localStorage by default). Keeps several conversations per `storageKey`:
+ * an index with titles (`{storageKey}:index`) and one entry per
+ * conversation (`{storageKey}:{sessionId}`).
+ * Stored records are validated and migrated to the current schema on
+ * read; unreadable ones are moved to `{storageKey}:quarantine`.
+ * Operations run one at a time, in call order.
  */
 export class StorageService {
-  static readonly MAX_MESSAGES = 100;
-  static readonly MAX_MESSAGE_LENGTH = 10000;
+  static readonly MAX_CONVERSATIONS = 50;
+  static readonly MAX_QUARANTINED = 10;
+  static readonly MAX_TITLE_LENGTH = 60;
   static readonly SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
 
   private storageKey: string;
+  private adapter: StorageAdapter;
+  private queue: Promise<unknown> = Promise.resolve();
+  private truncationWarned = false;
 
-  constructor(storageKey = 'omnifact-chat') {
+  constructor(storageKey = 'omnifact-chat', adapter?: StorageAdapter) {
     this.storageKey = storageKey;
+    this.adapter = adapter || StorageService.createAdapter('local', storageKey);
   }
 
   /**
-   * Get the stored state from localStorage.
+   * Create a built-in storage adapter. Falls back to localStorage if
+   * IndexedDB is missing, and to memory if web storage is blocked
+   * (e.g. in sandboxed iframes).
    */
-  getState(): StoredState {
+  static createAdapter(type: StorageType, storageKey = 'omnifact-chat'): StorageAdapter {
+    if (type === 'memory') {
+      return new MemoryStorageAdapter();
+    }
+    if (type === 'indexeddb') {
+      if (IndexedDBStorageAdapter.isSupported()) {
+        return new IndexedDBStorageAdapter(storageKey);
+      }
+      console.warn('[OmnifactWidget] IndexedDB is not available, using localStorage');
+    }
+
     try {
-      const data = localStorage.getItem(this.storageKey);
-      if (!data) {
-        return this._getDefaultState();
+      return new WebStorageAdapter(type === 'session' ? window.sessionStorage : window.localStorage);
+    } catch (e) {
+      console.warn('[OmnifactWidget] Web storage is not available, keeping chat history in memory:', e);
+      return new MemoryStorageAdapter();
+    }
+  }
+
+  /**
+   * Get the state of the active conversation.
+   * Starts a new conversation if there is none or the active one has been
+   * idle for longer than SESSION_TIMEOUT (it stays in the list).
+   */
+  getState(): Promise<StoredState> {
+    return this._enqueue(async () => {
+      try {
+        const index = await this._readIndex();
+        const data = index.activeId ? await this._readConversation(index.activeId) : null;
+        if (data && this._isSessionValid(data)) return data;
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to load chat state:', e);
       }
+      return this._createConversation();
+    });
+  }
 
-      const parsed = JSON.parse(data) as StoredData;
+  /**
+   * Save a conversation and make it the active one.
+   * Conversations without user messages are not kept in the list.
+   */
+  saveState(state: StoredState): Promise<void> {
+    return this._enqueue(async () => {
+      if (!state.sessionId) return;
 
-      // Check if session is still valid
-      if (!this._isSessionValid(parsed)) {
-        this.clearState();
-        return this._getDefaultState();
+      try {
+        if (!state.messages.some(m => m.role === 'user')) {
+          await this._removeConversation(state.sessionId, true);
+          return;
+        }
+        await this._write(state);
+      } catch (e) {
+        if (e instanceof Error && e.name === 'QuotaExceededError') {
+          // Clear old data and retry
+          await this._handleQuotaExceeded(state);
+        } else {
+          console.warn('[OmnifactWidget] Failed to save chat state:', e);
+        }
       }
+    });
+  }
 
-      return parsed;
-    } catch (e) {
-      console.warn('[OmnifactWidget] Failed to load chat state:', e);
-      return this._getDefaultState();
-    }
+  /**
+   * Delete the active conversation.
+   */
+  clearState(): Promise<void> {
+    return this._enqueue(async () => {
+      try {
+        const { activeId } = await this._readIndex();
+        if (activeId) await this._removeConversation(activeId);
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to clear chat state:', e);
+      }
+    });
   }
 
   /**
-   * Save state to localStorage.
+   * Start a new, empty conversation and make it the active one.
    */
-  saveState(state: StoredState): void {
+  createConversation(): Promise<StoredState> {
+    return this._enqueue(() => this._createConversation());
+  }
+
+  /**
+   * Load a stored conversation and make it the active one.
+   * Resolves to null if it doesn't exist.
+   */
+  loadConversation(id: string): Promise<StoredState | null> {
+    return this._enqueue(async () => {
+      try {
+        const data = await this._readConversation(id);
+        if (!data) return null;
+
+        const index = await this._readIndex();
+        index.activeId = id;
+        await this._writeIndex(index);
+        return data;
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to load conversation:', e);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * List stored conversations, most recently updated first.
+   */
+  listConversations(): Promise<ConversationSummary[]> {
+    return this._enqueue(async () => {
+      try {
+        return this._sorted(await this._readIndex());
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to load conversation list:', e);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Get the id of the active conversation.
+   */
+  getActiveConversationId(): Promise<string | null> {
+    return this._enqueue(async () => {
+      try {
+        return (await this._readIndex()).activeId;
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Rename a conversation. An empty title restores the derived one.
+   */
+  renameConversation(id: string, title: string): Promise<void> {
+    return this._enqueue(async () => {
+      try {
+        const index = await this._readIndex();
+        const entry = index.conversations.find(c => c.id === id);
+        if (!entry) return;
+
+        const trimmed = title.trim().slice(0, StorageService.MAX_TITLE_LENGTH);
+        if (trimmed) {
+          entry.title = trimmed;
+          entry.customTitle = true;
+        } else {
+          entry.title = this._deriveTitle((await this._readConversation(id))?.messages || []);
+          delete entry.customTitle;
+        }
+        await this._writeIndex(index);
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to rename conversation:', e);
+      }
+    });
+  }
+
+  /**
+   * Delete a stored conversation.
+   */
+  deleteConversation(id: string): Promise<void> {
+    return this._enqueue(async () => {
+      try {
+        await this._removeConversation(id);
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to delete conversation:', e);
+      }
+    });
+  }
+
+  /**
+   * Get stored payloads that could not be read (most recent last).
+   */
+  getQuarantined(): Promise<QuarantinedEntry[]> {
+    return this._enqueue(async () => {
+      try {
+        const entries = await this.adapter.get(this._quarantineKey());
+        return Array.isArray(entries) ? entries as QuarantinedEntry[] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Delete quarantined payloads.
+   */
+  clearQuarantine(): Promise<void> {
+    return this._enqueue(async () => {
+      try {
+        await this.adapter.remove(this._quarantineKey());
+      } catch (e) {
+        console.warn('[OmnifactWidget] Failed to clear quarantined chat state:', e);
+      }
+    });
+  }
+
+  /**
+   * Run an operation after all earlier ones have finished.
+   */
+  private _enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async _createConversation(): Promise<StoredState> {
+    const state = this._getDefaultState();
     try {
-      // Trim messages to limit
-      const messages: ChatMessage[] = state.messages
-        .slice(-StorageService.MAX_MESSAGES)
-        .map(m => ({
-          ...m,
-          content: m.content?.slice(0, StorageService.MAX_MESSAGE_LENGTH) || ''
-        }));
-
-      const data: StoredData = {
-        sessionId: state.sessionId,
-        messages,
-        lastUpdated: Date.now(),
-        version: 1
-      };
-
-      localStorage.setItem(this.storageKey, JSON.stringify(data));
+      const index = await this._readIndex();
+      index.activeId = state.sessionId;
+      await this._writeIndex(index);
     } catch (e) {
-      if (e instanceof Error && e.name === 'QuotaExceededError') {
-        // Clear old data and retry with fewer messages
-        this._handleQuotaExceeded(state);
-      } else {
-        console.warn('[OmnifactWidget] Failed to save chat state:', e);
-      }
+      console.warn('[OmnifactWidget] Failed to save conversation list:', e);
+    }
+    return state;
+  }
+
+  /**
+   * Write a conversation and update its index entry.
+   * Throws if storage is full.
+   */
+  private async _write(state: StoredState, maxMessages = this.adapter.limits?.maxMessages): Promise<void> {
+    const sessionId = state.sessionId as string;
+    const messages = this._applyLimits(state.messages, maxMessages);
+
+    const now = Date.now();
+    const index = await this._readIndex();
+    let entry = index.conversations.find(c => c.id === sessionId);
+    if (!entry) {
+      entry = { id: sessionId, title: '', createdAt: now, updatedAt: now };
+      index.conversations.push(entry);
+    }
+
+    const data: StoredData = {
+      sessionId,
+      messages,
+      createdAt: entry.createdAt,
+      lastUpdated: now,
+      version: StorageSchema.VERSION
+    };
+    await this.adapter.set(this._conversationKey(sessionId), data);
+
+    if (!entry.customTitle) entry.title = this._deriveTitle(state.messages);
+    entry.updatedAt = now;
+    index.activeId = sessionId;
+
+    await this._pruneConversations(index);
+    await this._writeIndex(index);
+  }
+
+  /**
+   * Trim messages to the adapter's size limits, warning once when history is cut.
+   */
+  private _applyLimits(messages: ChatMessage[], maxMessages: number | undefined): ChatMessage[] {
+    const maxLength = this.adapter.limits?.maxMessageLength;
+    let truncated = false;
+
+    let limited = messages;
+    if (maxMessages !== undefined && messages.length > maxMessages) {
+      limited = messages.slice(-maxMessages);
+      truncated = true;
     }
+    if (maxLength !== undefined) {
+      limited = limited.map(m => {
+        const content = m.content || '';
+        if (content.length <= maxLength) return m;
+        truncated = true;
+        return { ...m, content: content.slice(0, maxLength) };
+      });
+    }
+
+    if (truncated && !this.truncationWarned) {
+      this.truncationWarned = true;
+      console.warn('[OmnifactWidget] Chat history was shortened to fit the storage limits. Use storage="indexeddb" to keep long conversations.');
+    }
+    return limited;
   }
 
   /**
-   * Clear all stored state.
+   * Drop the least recently updated conversations beyond MAX_CONVERSATIONS.
    */
-  clearState(): void {
+  private async _pruneConversations(index: ConversationIndex): Promise<void> {
+    if (index.conversations.length <= StorageService.MAX_CONVERSATIONS) return;
+
+    index.conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+    const removed = index.conversations.splice(StorageService.MAX_CONVERSATIONS);
+    for (const entry of removed) {
+      await this.adapter.remove(this._conversationKey(entry.id));
+    }
+  }
+
+  /**
+   * Remove a conversation and its index entry.
+   */
+  private async _removeConversation(id: string, keepActive = false): Promise<void> {
+    await this.adapter.remove(this._conversationKey(id));
+
+    const index = await this._readIndex();
+    index.conversations = index.conversations.filter(c => c.id !== id);
+    if (keepActive) {
+      index.activeId = id;
+    } else if (index.activeId === id) {
+      index.activeId = null;
+    }
+    await this._writeIndex(index);
+  }
+
+  /**
+   * Derive a conversation title from the first user message.
+   */
+  private _deriveTitle(messages: ChatMessage[]): string {
+    const first = messages.find(m => m.role === 'user');
+    const text = (first?.content || '').replace(/\s+/g, ' ').trim();
+    if (!text) return 'New conversation';
+    if (text.length <= StorageService.MAX_TITLE_LENGTH) return text;
+    return text.slice(0, StorageService.MAX_TITLE_LENGTH - 1).trimEnd() + '…';
+  }
+
+  private _sorted(index: ConversationIndex): ConversationSummary[] {
+    return index.conversations
+      .slice()
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(c => ({ ...c }));
+  }
+
+  /**
+   * Read the conversation index. A single conversation stored by earlier
+   * versions under `storageKey` itself is moved into the index.
+   */
+  private async _readIndex(): Promise<ConversationIndex> {
+    const index: ConversationIndex = { activeId: null, conversations: [], version: StorageSchema.INDEX_VERSION };
+
+    const raw = await this.adapter.get(this._indexKey());
+    if (raw === null || raw === undefined) {
+      await this._migrateSingleSession(index);
+      return index;
+    }
+
+    const problem = StorageSchema.validateIndex(raw);
+    if (problem) {
+      await this._quarantine(this._indexKey(), raw, `Invalid conversation list: ${problem}`);
+      return index;
+    }
+    return raw as ConversationIndex;
+  }
+
+  /**
+   * Move a single conversation stored by earlier versions under
+   * `storageKey` itself into the conversation list.
+   */
+  private async _migrateSingleSession(index: ConversationIndex): Promise<void> {
+    const raw = await this.adapter.get(this.storageKey);
+    if (raw === null || raw === undefined) return;
+
+    const data = await this._load(this.storageKey, raw);
+    if (!data) return;
+
+    await this.adapter.set(this._conversationKey(data.sessionId), data);
+    await this.adapter.remove(this.storageKey);
+    index.conversations.push({
+      id: data.sessionId,
+      title: this._deriveTitle(data.messages),
+      createdAt: data.createdAt,
+      updatedAt: data.lastUpdated || data.createdAt
+    });
+    index.activeId = data.sessionId;
+    await this._writeIndex(index);
+  }
+
+  /**
+   * Validate and migrate a stored conversation record, writing the
+   * migrated record back. Unreadable records are quarantined.
+   */
+  private async _load(key: string, raw: unknown): Promise<StoredData | null> {
     try {
-      localStorage.removeItem(this.storageKey);
+      const { data, migrated } = StorageSchema.migrate(raw);
+      if (migrated && key !== this.storageKey) {
+        await this.adapter.set(key, data);
+      }
+      return data;
     } catch (e) {
-      console.warn('[OmnifactWidget] Failed to clear chat state:', e);
+      await this._quarantine(key, raw, e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  }
+
+  /**
+   * Keep an unreadable payload for inspection and remove it from its key.
+   */
+  private async _quarantine(key: string, payload: unknown, reason: string): Promise<void> {
+    console.warn(`[OmnifactWidget] Stored chat data at "${key}" could not be read and was quarantined: ${reason}`);
+
+    const existing = await this.adapter.get(this._quarantineKey());
+    const entries = Array.isArray(existing) ? existing as QuarantinedEntry[] : [];
+    entries.push({ key, reason, quarantinedAt: Date.now(), payload });
+
+    await this.adapter.set(this._quarantineKey(), entries.slice(-StorageService.MAX_QUARANTINED));
+    await this.adapter.remove(key);
+  }
+
+  private async _writeIndex(index: ConversationIndex): Promise<void> {
+    await this.adapter.set(this._indexKey(), index);
+  }
+
+  private async _readConversation(id: string): Promise<StoredData | null> {
+    const key = this._conversationKey(id);
+    const raw = await this.adapter.get(key);
+    if (raw === null || raw === undefined) return null;
+
+    const data = await this._load(key, raw);
+    if (!data) {
+      // Drop the list entry of a quarantined conversation
+      const index = await this._readIndex();
+      index.conversations = index.conversations.filter(c => c.id !== id);
+      if (index.activeId === id) index.activeId = null;
+      await this._writeIndex(index);
     }
+    return data;
+  }
+
+  private _indexKey(): string {
+    return `${this.storageKey}:index`;
+  }
+
+  private _conversationKey(id: string): string {
+    return `${this.storageKey}:${id}`;
+  }
+
+  private _quarantineKey(): string {
+    return `${this.storageKey}:quarantine`;
   }
 
   /**
@@ -120,19 +498,26 @@ export class StorageService {
   }
 
   /**
-   * Handle quota exceeded error by clearing old data.
+   * Handle quota exceeded error by removing the oldest other conversations,
+   * then by keeping only the most recent half of messages.
    */
-  private _handleQuotaExceeded(state: StoredState): void {
+  private async _handleQuotaExceeded(state: StoredState): Promise<void> {
     try {
-      // Keep only the most recent half of messages
-      const messages = state.messages.slice(-Math.floor(StorageService.MAX_MESSAGES / 2));
-      const data: StoredData = {
-        sessionId: state.sessionId,
-        messages,
-        lastUpdated: Date.now(),
-        version: 1
-      };
-      localStorage.setItem(this.storageKey, JSON.stringify(data));
+      const others = this._sorted(await this._readIndex()).filter(c => c.id !== state.sessionId).reverse();
+
+      for (const entry of others) {
+        await this._removeConversation(entry.id);
+        try {
+          await this._write(state);
+          return;
+        } catch {
+          // Keep making room
+        }
+      }
+
+      const maxMessages = this.adapter.limits?.maxMessages ?? state.messages.length;
+      await this._write(state, Math.floor(maxMessages / 2));
+      console.warn('[OmnifactWidget] Storage is full; only the most recent messages were saved.');
     } catch (e) {
       console.warn('[OmnifactWidget] Failed to save chat state after cleanup:', e);
     }
@@ -0,0 +1,130 @@
+import type { ChatMessage } from '../types';
+
+/**
+ * Messages exchanged between widget instances in tabs of the same origin.
+ */
+export type TabSyncMessage =
+  /** Full conversation snapshot; `streaming` is set while the sender is answering. */
+  | { type: 'state'; sessionId: string | null; messages: ChatMessage[]; streaming: boolean }
+  /** Partial assistant answer of a conversation being streamed by the sender. */
+  | { type: 'stream'; sessionId: string | null; message: ChatMessage }
+  /** A conversation was deleted or cleared. */
+  | { type: 'delete'; sessionId: string | null }
+  /** Conversation titles changed. */
+  | { type: 'conversations' }
+  /** The chat window was opened or closed. */
+  | { type: 'open'; isOpen: boolean };
+
+interface Envelope {
+  tabId: string;
+  message: TabSyncMessage;
+}
+
+/**
+ * Sends widget updates to other tabs using a BroadcastChannel, or
+ * `storage` events where BroadcastChannel is missing (Safari < 15.4).
+ * Does nothing if neither is available.
+ */
+export class TabSync {
+  /** Minimum interval between throttled messages (ms). */
+  static readonly THROTTLE_INTERVAL = 250;
+
+  readonly tabId: string;
+  private name: string;
+  private onMessage: (message: TabSyncMessage) => void;
+  private channel: BroadcastChannel | null = null;
+  private storageListener: ((e: StorageEvent) => void) | null = null;
+  private pending: TabSyncMessage | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(name: string, onMessage: (message: TabSyncMessage) => void) {
+    this.name = name;
+    this.onMessage = onMessage;
+    this.tabId = Math.random().toString(36).substring(2, 11);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (e: MessageEvent) => this._receive(e.data);
+    } else if (typeof window !== 'undefined') {
+      this.storageListener = (e: StorageEvent) => {
+        if (e.key !== this._storageKey() || !e.newValue) return;
+        try {
+          this._receive(JSON.parse(e.newValue));
+        } catch {
+          // Not ours
+        }
+      };
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  /**
+   * Send a message to other tabs. Drops a pending throttled message.
+   */
+  post(message: TabSyncMessage): void {
+    this._cancelPending();
+    this._send(message);
+  }
+
+  /**
+   * Send a message at most every THROTTLE_INTERVAL; only the latest
+   * message of a burst is delivered.
+   */
+  postThrottled(message: TabSyncMessage): void {
+    this.pending = message;
+    if (this.timer !== null) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const pending = this.pending;
+      this.pending = null;
+      if (pending) this._send(pending);
+    }, TabSync.THROTTLE_INTERVAL);
+  }
+
+  /**
+   * Stop sending and receiving messages.
+   */
+  close(): void {
+    this._cancelPending();
+    this.channel?.close();
+    this.channel = null;
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+
+  private _send(message: TabSyncMessage): void {
+    const envelope: Envelope = { tabId: this.tabId, message };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else if (this.storageListener) {
+        // Other tabs get a storage event for the write; the entry itself isn't kept
+        localStorage.setItem(this._storageKey(), JSON.stringify(envelope));
+        localStorage.removeItem(this._storageKey());
+      }
+    } catch (e) {
+      console.warn('[OmnifactWidget] Failed to sync with other tabs:', e);
+    }
+  }
+
+  private _receive(data: unknown): void {
+    const envelope = data as Envelope | null;
+    if (!envelope || typeof envelope !== 'object' || !envelope.message || envelope.tabId === this.tabId) return;
+    this.onMessage(envelope.message);
+  }
+
+  private _cancelPending(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+
+  private _storageKey(): string {
+    return `${this.name}:sync`;
+  }
+}
@@ -5,6 +5,7 @@ export interface WidgetConfig {
   endpointUrl: string;
   endpointId: string;
   apiKey: string;
+  tokenEndpoint: string;
   position: 'bottom-right' | 'bottom-left';
   title: string;
   welcomeMessage: string;
@@ -13,10 +14,35 @@ export interface WidgetConfig {
   backgroundColor: string;
   textColor: string;
   storageKey: string;
+  storage: StorageType;
   enablePersistence: boolean;
   enableInlineSources: boolean;
   enableAgenticWorkflow: boolean;
   hideSources: boolean;
+  streaming: boolean;
+  maxRetries: number;
+  retryDelay: number;
+  allowedLinkProtocols: string[];
+  allowedLinkDomains: string[];
+  linkRedirectUrl: string;
+  documentUrlTemplate: string;
+  enableFeedback: boolean;
+  feedbackUrl: string;
+  enableTabSync: boolean;
+  syncOpenState: boolean;
+  enableHandoff: boolean;
+  handoffUrl: string;
+  enableAttachments: boolean;
+  allowedAttachmentTypes: string[];
+  maxAttachmentSize: number;
+  maxAttachments: number;
+  attachmentUploadUrl: string;
+  enableVoiceInput: boolean;
+  enableReadAloud: boolean;
+  autoReadAloud: boolean;
+  speechLanguage: string;
+  speechVoice: string;
+  speechRate: number;
   debug: boolean;
 }
 
@@ -25,21 +51,210 @@ export interface WidgetConfig {
  */
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant';
+  /** `agent` is a human support agent during a handoff. */
+  role: 'user' | 'assistant' | 'agent';
   content: string;
   timestamp: number;
+  agentName?: string;
   isWelcome?: boolean;
   isError?: boolean;
+  isInterrupted?: boolean;
   sources?: InlineSource[];
   references?: LegacyReferences;
+  steps?: AgentStep[];
+  attachments?: Attachment[];
+  /**
+   * Alternative versions of the conversation from this message on
+   * (regenerated answers, edited prompts). The entry at `variantIndex`
+   * is left empty because the active version lives in the message list.
+   */
+  variants?: ChatMessage[][];
+  variantIndex?: number;
+  feedback?: MessageFeedback;
+  /** Id the server assigned to an answer; feedback is sent for this id. */
+  serverId?: string;
+}
+
+/**
+ * File attached to a user message. Carries the content inline (`data`)
+ * until it is uploaded to the attachment upload endpoint (`url`).
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes. */
+  size: number;
+  /** Base64-encoded content (without a `data:` prefix). */
+  data?: string;
+  /** Reference returned by the upload endpoint. */
+  url?: string;
+  /** Small preview (PNG data URL), for images only. */
+  thumbnail?: string;
+  /** The content was no longer available (e.g. after a reload), so the file wasn't sent. */
+  unavailable?: boolean;
+}
+
+/**
+ * User rating of an assistant answer.
+ */
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  comment?: string;
+  timestamp: number;
 }
 
 /**
  * API message format (sent to the API).
  */
 export interface ApiMessage {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'system';
+  /** Plain text, or a list of parts for messages with attachments. */
+  content: string | ApiContentPart[];
+}
+
+/**
+ * Part of a multipart API message. Attachments carry either their
+ * base64 content (`data`) or the reference of an uploaded file (`url`).
+ */
+export type ApiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'file'; name: string; mimeType: string; data?: string; url?: string };
+
+/**
+ * Bearer token with optional expiry (epoch milliseconds).
+ */
+export interface AuthToken {
+  token: string;
+  expiresAt?: number;
+}
+
+/**
+ * Host-provided callback that fetches a short-lived bearer token.
+ */
+export type TokenProvider = () => string | AuthToken | Promise<string | AuthToken>;
+
+/**
+ * Built-in storage backends for chat history.
+ */
+export type StorageType = 'local' | 'session' | 'indexeddb' | 'memory';
+
+/**
+ * Key-value store for chat history. Values are plain JSON-serializable
+ * objects. Implement this to keep history elsewhere, e.g. on your server.
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** Size limits for quota-bound stores; conversations are stored in full without them. */
+  limits?: StorageLimits;
+}
+
+/**
+ * Limits applied when saving a conversation.
+ */
+export interface StorageLimits {
+  maxMessages?: number;
+  maxMessageLength?: number;
+}
+
+/**
+ * State of a handoff to a human agent.
+ */
+export type HandoffStatus = 'connecting' | 'waiting' | 'connected' | 'ended';
+
+/**
+ * Request to hand the conversation to a human (e.g. from a `handoff` SSE event).
+ */
+export interface HandoffRequest {
+  reason?: string;
+}
+
+/**
+ * Handed to the transport when a handoff starts.
+ */
+export interface HandoffSession {
+  sessionId: string | null;
+  reason?: string;
+  /** Conversation so far, without the welcome message and errors. */
+  transcript: ChatMessage[];
+}
+
+/**
+ * Message from a human agent.
+ */
+export interface AgentMessage {
+  id?: string;
   content: string;
+  agentName?: string;
+  timestamp?: number;
+}
+
+/**
+ * Callbacks a handoff transport reports to.
+ */
+export interface HandoffHandlers {
+  onMessage: (message: AgentMessage) => void;
+  /** `ended` when the agent closed the chat or the connection was lost. */
+  onStatus: (status: HandoffStatus, agentName?: string) => void;
+}
+
+/**
+ * Connection to a live support system. Implement this to route messages
+ * during a handoff through your own backend.
+ */
+export interface HandoffTransport {
+  connect(session: HandoffSession, handlers: HandoffHandlers): Promise<void>;
+  send(content: string): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Callbacks a speech recognizer reports dictation through.
+ */
+export interface SpeechRecognizerHandlers {
+  /** Everything recognized since start (final and interim results). */
+  onResult: (transcript: string) => void;
+  /** Listening stopped (after stop(), silence or an error). */
+  onEnd: () => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Speech-to-text engine for dictation. The widget uses the browser's
+ * Web Speech API; implement this to plug in another service where it
+ * is missing.
+ */
+export interface SpeechRecognizer {
+  start(handlers: SpeechRecognizerHandlers): void | Promise<void>;
+  stop(): void;
+}
+
+/**
+ * Outgoing chat request, as seen (and modified) by interceptors.
+ */
+export interface ApiRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: {
+    messages: ApiMessage[];
+    streaming: boolean;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Request/response interceptor for ApiClient.
+ * Hooks run in registration order; returning nothing keeps the value unchanged.
+ */
+export interface ApiInterceptor {
+  /** Modify or replace the request before it is sent. */
+  beforeRequest?: (request: ApiRequest) => ApiRequest | void | Promise<ApiRequest | void>;
+  /** Inspect or replace the response before it is checked and consumed. */
+  afterResponse?: (response: Response, request: ApiRequest) => Response | void | Promise<Response | void>;
+  /** Handle a failed request. Return a Response to recover, or throw to replace the error. */
+  onError?: (error: Error, request: ApiRequest) => Response | void | Promise<Response | void>;
 }
 
 /**
@@ -89,6 +304,32 @@ export interface DocumentPart {
   number: number;
 }
 
+/**
+ * Kind of agentic workflow step.
+ */
+export type AgentStepKind = 'step' | 'planning' | 'tool_call' | 'retrieval' | 'result';
+
+/**
+ * Status of an agentic workflow step.
+ */
+export type AgentStepStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A step of the agentic workflow (planning, tool call, retrieval, ...).
+ */
+export interface AgentStep {
+  id: string;
+  kind: AgentStepKind;
+  title: string;
+  status: AgentStepStatus;
+  detail?: string;
+  toolName?: string;
+  input?: unknown;
+  output?: unknown;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
 /**
  * Widget state.
  */
@@ -108,6 +349,38 @@ export interface StoredState {
   timestamp?: number;
 }
 
+/**
+ * Formats a conversation can be exported to.
+ */
+export type TranscriptFormat = 'markdown' | 'text' | 'json' | 'html';
+
+/**
+ * Conversation transcript as exported in the `json` format and accepted
+ * by `importConversation()`.
+ */
+export interface TranscriptData {
+  format: 'omnifact-transcript';
+  version: number;
+  title: string;
+  sessionId: string | null;
+  /** ISO 8601 date of the export. */
+  exportedAt: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * Entry in the list of stored conversations.
+ */
+export interface ConversationSummary {
+  /** Session id of the conversation. */
+  id: string;
+  title: string;
+  /** Set once the user renamed the conversation; the title is no longer derived. */
+  customTitle?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
 /**
  * SSE stream result.
  */
@@ -116,6 +389,9 @@ export interface StreamResult {
   messageId: string | null;
   references: LegacyReferences | null;
   sources: InlineSource[] | null;
+  steps?: AgentStep[] | null;
+  lastEventId?: string | null;
+  interrupted?: boolean;
 }
 
 /**
@@ -125,6 +401,8 @@ export interface StreamCallbacks {
   onChunk?: (chunk: string, accumulated: string, messageId: string | null) => void;
   onReferences?: (refs: LegacyReferences) => void;
   onSource?: (source: InlineSource) => void;
+  onAgentStep?: (step: AgentStep, steps: AgentStep[]) => void;
+  onHandoff?: (request: HandoffRequest) => void;
   onComplete?: (result: StreamResult) => void;
   onError?: (error: Error) => void;
 }
@@ -140,10 +418,134 @@ export interface ThemeConfig {
 }
 
 /**
- * Declare global window properties for debug mode.
+ * Detail for `omnifact:open` and `omnifact:close`.
+ */
+export interface VisibilityEventDetail {
+  sessionId: string | null;
+}
+
+/**
+ * Detail for `omnifact:message-sent`.
+ */
+export interface MessageSentEventDetail {
+  message: ChatMessage;
+}
+
+/**
+ * Detail for `omnifact:response-chunk`.
+ */
+export interface ResponseChunkEventDetail {
+  messageId: string;
+  chunk: string;
+  content: string;
+}
+
+/**
+ * Detail for `omnifact:response-complete`.
+ */
+export interface ResponseCompleteEventDetail {
+  message: ChatMessage;
+  interrupted: boolean;
+}
+
+/**
+ * Detail for `omnifact:source`.
+ */
+export interface SourceEventDetail {
+  messageId: string;
+  source: InlineSource;
+}
+
+/**
+ * Detail for `omnifact:citation-click`. Cancel the event (`preventDefault()`)
+ * to open your own document viewer instead of the built-in popover.
+ */
+export interface CitationClickEventDetail {
+  messageId: string;
+  source: InlineSource;
+  /** Document URL resolved from `documentUrlTemplate`, if any. */
+  url: string | null;
+}
+
+/**
+ * Detail for `omnifact:feedback`.
+ */
+export interface FeedbackEventDetail {
+  messageId: string;
+  feedback: MessageFeedback;
+}
+
+/**
+ * Detail for `omnifact:export`. Cancel the event (`preventDefault()`) to
+ * handle the transcript yourself (e.g. send it to your support team)
+ * instead of downloading or printing it.
+ */
+export interface ExportEventDetail {
+  sessionId: string | null;
+  format: TranscriptFormat;
+  content: string;
+  filename: string;
+}
+
+/**
+ * Detail for `omnifact:handoff`.
+ */
+export interface HandoffEventDetail {
+  sessionId: string | null;
+  status: HandoffStatus;
+  agentName?: string;
+  reason?: string;
+}
+
+/**
+ * Detail for `omnifact:conversation-change`.
+ */
+export interface ConversationChangeEventDetail {
+  sessionId: string | null;
+  previousSessionId: string | null;
+}
+
+/**
+ * Detail for `omnifact:error`.
+ */
+export interface ErrorEventDetail {
+  error: Error;
+}
+
+/**
+ * Detail for `omnifact:history-cleared`.
+ */
+export interface HistoryClearedEventDetail {
+  sessionId: string | null;
+}
+
+/**
+ * Events dispatched from the `<omnifact-chat-widget>` host element.
+ * All events bubble and cross shadow boundaries.
+ */
+export interface OmnifactEventMap {
+  'omnifact:open': CustomEvent<VisibilityEventDetail>;
+  'omnifact:close': CustomEvent<VisibilityEventDetail>;
+  'omnifact:message-sent': CustomEvent<MessageSentEventDetail>;
+  'omnifact:response-chunk': CustomEvent<ResponseChunkEventDetail>;
+  'omnifact:response-complete': CustomEvent<ResponseCompleteEventDetail>;
+  'omnifact:source': CustomEvent<SourceEventDetail>;
+  'omnifact:citation-click': CustomEvent<CitationClickEventDetail>;
+  'omnifact:feedback': CustomEvent<FeedbackEventDetail>;
+  'omnifact:error': CustomEvent<ErrorEventDetail>;
+  'omnifact:history-cleared': CustomEvent<HistoryClearedEventDetail>;
+  'omnifact:conversation-change': CustomEvent<ConversationChangeEventDetail>;
+  'omnifact:export': CustomEvent<ExportEventDetail>;
+  'omnifact:handoff': CustomEvent<HandoffEventDetail>;
+}
+
+/**
+ * Declare global window properties for debug mode and typed widget events.
  */
 declare global {
   interface Window {
     omnifactDebug?: boolean;
   }
+
+  interface HTMLElementEventMap extends OmnifactEventMap {}
 }
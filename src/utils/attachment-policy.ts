@@ -0,0 +1,155 @@
+import type { Attachment } from '../types';
+
+/**
+ * Options for the attachment policy.
+ */
+export interface AttachmentPolicyOptions {
+  /** Allowed MIME types (`image/*` wildcards) or file extensions (`.csv`). */
+  allowedTypes?: string[];
+  /** Maximum size of a single file in bytes. */
+  maxSize?: number;
+  /** Maximum number of files per message. */
+  maxCount?: number;
+}
+
+/** Preview images can be shown inline; anything else is not rendered. */
+const THUMBNAIL_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/]+=*$/i;
+
+/**
+ * Client-side checks for files attached to a message, and reading them
+ * into attachments (base64 content plus a thumbnail for images).
+ * The server must still validate what it receives.
+ */
+export class AttachmentPolicy {
+  static readonly DEFAULT_TYPES = ['image/*', 'application/pdf', 'text/plain'];
+  static readonly DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
+  static readonly DEFAULT_MAX_COUNT = 5;
+  /** Longest side of generated thumbnails (px). */
+  static readonly THUMBNAIL_SIZE = 160;
+
+  private options: Required<AttachmentPolicyOptions>;
+
+  constructor(options: AttachmentPolicyOptions = {}) {
+    this.options = {
+      allowedTypes: AttachmentPolicy.DEFAULT_TYPES,
+      maxSize: AttachmentPolicy.DEFAULT_MAX_SIZE,
+      maxCount: AttachmentPolicy.DEFAULT_MAX_COUNT,
+      ...options
+    };
+  }
+
+  /**
+   * Value for the `accept` attribute of a file input.
+   */
+  get accept(): string {
+    return this.options.allowedTypes.join(',');
+  }
+
+  get maxCount(): number {
+    return this.options.maxCount;
+  }
+
+  /**
+   * Check a file before it is attached (`count` files are attached already).
+   * Returns a description of the problem, or null if the file is allowed.
+   */
+  check(file: { name: string; type: string; size: number }, count = 0): string | null {
+    if (count >= this.options.maxCount) {
+      return `You can attach up to ${this.options.maxCount} file${this.options.maxCount === 1 ? '' : 's'}.`;
+    }
+    if (!this._isAllowedType(file)) {
+      return `${file.name}: this file type is not supported.`;
+    }
+    if (file.size > this.options.maxSize) {
+      return `${file.name} is larger than ${AttachmentPolicy.formatSize(this.options.maxSize)}.`;
+    }
+    return null;
+  }
+
+  /**
+   * Read a file into an attachment.
+   */
+  static async read(file: File): Promise<Attachment> {
+    const dataUrl = await readAsDataUrl(file);
+    const attachment: Attachment = {
+      id: 'att_' + Date.now() + '_' + Math.random().toString(36).substring(2, 11),
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1)
+    };
+
+    if (attachment.mimeType.startsWith('image/')) {
+      const thumbnail = await createThumbnail(dataUrl).catch(() => null);
+      if (thumbnail) attachment.thumbnail = thumbnail;
+    }
+    return attachment;
+  }
+
+  /**
+   * Whether a thumbnail is an inline raster image that is safe to render.
+   */
+  static isSafeThumbnail(value: unknown): value is string {
+    return typeof value === 'string' && THUMBNAIL_PATTERN.test(value);
+  }
+
+  /**
+   * Human-readable file size, e.g. `1.2 MB`.
+   */
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+  }
+
+  private _isAllowedType(file: { name: string; type: string }): boolean {
+    const type = file.type.toLowerCase();
+    const name = file.name.toLowerCase();
+
+    return this.options.allowedTypes.some(allowed => {
+      const rule = allowed.trim().toLowerCase();
+      if (!rule) return false;
+      if (rule.startsWith('.')) return name.endsWith(rule);
+      if (rule.endsWith('/*')) return type.startsWith(rule.slice(0, -1));
+      return type === rule;
+    });
+  }
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Scale an image down to THUMBNAIL_SIZE and return it as a PNG data URL.
+ */
+function createThumbnail(src: string): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, AttachmentPolicy.THUMBNAIL_SIZE / Math.max(image.width, image.height, 1));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      try {
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      } catch (error) {
+        // Some browsers taint the canvas when drawing SVG images
+        reject(error);
+      }
+    };
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
@@ -0,0 +1,282 @@
+/**
+ * External highlighter hook. Receives the raw code and language and returns
+ * highlighted HTML (already escaped), or null to use the built-in highlighter.
+ */
+export type HighlightFunction = (code: string, language: string) => string | null | undefined;
+
+interface TokenRule {
+  /** Token class suffix (`tok-{type}`); empty means no wrapping span. */
+  type: string;
+  /** Sticky (`y`) pattern matched at the current position. */
+  pattern: RegExp;
+  /** Refine the token type from the matched text; returning null skips the rule. */
+  classify?: (text: string) => string | null;
+  /** Rules for highlighting inside the matched text. */
+  inside?: TokenRule[];
+  /** Only match when the preceding character matches (start of code counts as a newline). */
+  after?: RegExp;
+}
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const JS_KEYWORDS = words(
+  'async await break case catch class const continue debugger default delete do else export extends ' +
+  'finally for from function get if import in instanceof let new of return set static super switch ' +
+  'this throw try typeof var void while with yield as implements interface type enum declare namespace ' +
+  'private protected public readonly abstract keyof infer is satisfies'
+);
+const JS_LITERALS = words('true false null undefined NaN Infinity');
+const TS_TYPES = words('string number boolean any unknown never object symbol bigint void');
+
+const PYTHON_KEYWORDS = words(
+  'and as assert async await break class continue def del elif else except finally for from global if ' +
+  'import in is lambda match case nonlocal not or pass raise return try while with yield'
+);
+const PYTHON_LITERALS = words('True False None');
+
+const BASH_KEYWORDS = words(
+  'if then else elif fi for while until do done case esac in function return export local readonly ' +
+  'unset source alias echo cd exit sudo'
+);
+
+const SQL_KEYWORDS = words(
+  'select from where and or not insert into values update set delete create table drop alter add ' +
+  'column index view join inner left right full outer cross on as group by order having limit offset ' +
+  'union all distinct case when then else end is null like in between exists primary key foreign ' +
+  'references default constraint unique asc desc with returning begin commit rollback transaction ' +
+  'count sum avg min max coalesce cast'
+);
+const SQL_LITERALS = words('true false null');
+
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?n?)\b/y;
+const DOUBLE_STRING = /"(?:[^"\\\n]|\\.)*"?/y;
+const SINGLE_STRING = /'(?:[^'\\\n]|\\.)*'?/y;
+
+const JS_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'string', pattern: /`(?:[^`\\]|\\[\s\S])*`?/y },
+  { type: 'string', pattern: DOUBLE_STRING },
+  { type: 'string', pattern: SINGLE_STRING },
+  { type: 'number', pattern: NUMBER },
+  {
+    type: 'function',
+    pattern: /[A-Za-z_$][\w$]*(?=\s*\()/y,
+    classify: word => (JS_KEYWORDS.has(word) ? null : 'function')
+  },
+  {
+    type: 'word',
+    pattern: /[A-Za-z_$][\w$]*/y,
+    classify: word => {
+      if (JS_KEYWORDS.has(word)) return 'keyword';
+      if (JS_LITERALS.has(word)) return 'literal';
+      if (TS_TYPES.has(word)) return 'type';
+      if (/^[A-Z]/.test(word)) return 'type';
+      return '';
+    }
+  }
+];
+
+const PYTHON_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /#[^\n]*/y },
+  { type: 'string', pattern: /[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y },
+  { type: 'string', pattern: /[rRbBuUfF]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/y },
+  { type: 'decorator', pattern: /@[\w.]+/y },
+  { type: 'number', pattern: NUMBER },
+  {
+    type: 'function',
+    pattern: /[A-Za-z_]\w*(?=\s*\()/y,
+    classify: word => (PYTHON_KEYWORDS.has(word) ? null : 'function')
+  },
+  {
+    type: 'word',
+    pattern: /[A-Za-z_]\w*/y,
+    classify: word => {
+      if (PYTHON_KEYWORDS.has(word)) return 'keyword';
+      if (PYTHON_LITERALS.has(word)) return 'literal';
+      if (/^[A-Z]/.test(word)) return 'type';
+      return '';
+    }
+  }
+];
+
+const JSON_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'property', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y },
+  { type: 'string', pattern: DOUBLE_STRING },
+  { type: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+  { type: 'literal', pattern: /\b(?:true|false|null)\b/y }
+];
+
+const BASH_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /#[^\n]*/y, after: /\s/ },
+  {
+    type: 'string',
+    pattern: /"(?:[^"\\]|\\[\s\S])*"?/y,
+    inside: [{ type: 'variable', pattern: /\$(?:\{[^}]*\}|\w+|[@#?$!*-])/y }]
+  },
+  { type: 'string', pattern: /'[^']*'?/y },
+  { type: 'variable', pattern: /\$(?:\{[^}]*\}|\(|\w+|[@#?$!*-])/y },
+  { type: 'option', pattern: /--?[\w-]+/y, after: /\s/ },
+  { type: 'number', pattern: /\b\d+\b/y },
+  {
+    type: 'word',
+    pattern: /[A-Za-z_][\w-]*/y,
+    classify: word => (BASH_KEYWORDS.has(word) ? 'keyword' : '')
+  }
+];
+
+const SQL_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'string', pattern: /'(?:[^']|'')*'?/y },
+  { type: 'property', pattern: /"(?:[^"]|"")*"?|`[^`]*`?/y },
+  { type: 'number', pattern: /\b\d+(?:\.\d+)?\b/y },
+  {
+    type: 'function',
+    pattern: /[A-Za-z_]\w*(?=\s*\()/y,
+    classify: word => (SQL_KEYWORDS.has(word.toLowerCase()) && !/^(count|sum|avg|min|max|coalesce|cast)$/i.test(word) ? null : 'function')
+  },
+  {
+    type: 'word',
+    pattern: /[A-Za-z_]\w*/y,
+    classify: word => {
+      const lower = word.toLowerCase();
+      if (SQL_LITERALS.has(lower)) return 'literal';
+      return SQL_KEYWORDS.has(lower) ? 'keyword' : '';
+    }
+  }
+];
+
+const CSS_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y },
+  { type: 'string', pattern: DOUBLE_STRING },
+  { type: 'string', pattern: SINGLE_STRING },
+  { type: 'keyword', pattern: /@[\w-]+/y },
+  { type: 'property', pattern: /-{0,2}[a-zA-Z][\w-]*(?=\s*:[^;{}]*(?:[;}]|$))/y },
+  { type: 'number', pattern: /#[\da-fA-F]{3,8}\b|-?(?:\d+\.?\d*|\.\d+)(?:px|em|rem|%|vh|vw|vmin|vmax|s|ms|deg|fr|ch|ex|pt)?/y },
+  { type: 'keyword', pattern: /!important\b/y },
+  { type: 'function', pattern: /[\w-]+(?=\()/y },
+  { type: 'selector', pattern: /[.#][a-zA-Z_-][\w-]*|::?[a-zA-Z-]+/y }
+];
+
+const HTML_TAG_RULES: TokenRule[] = [
+  { type: 'tag', pattern: /^<\/?[\w:-]+/y },
+  { type: 'string', pattern: /"[^"]*"|'[^']*'/y },
+  { type: 'attr', pattern: /[^\s=<>/"']+/y }
+];
+
+const HTML_RULES: TokenRule[] = [
+  { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/y },
+  { type: 'keyword', pattern: /<!doctype[^>]*>/iy },
+  { type: '', pattern: /<\/?[a-zA-Z][\w:-]*(?:\s+[^<>]*?)?\/?>/y, inside: HTML_TAG_RULES },
+  { type: 'entity', pattern: /&(?:#\d+|#x[\da-fA-F]+|\w+);/y }
+];
+
+const LANGUAGES: Record<string, TokenRule[]> = {
+  javascript: JS_RULES,
+  typescript: JS_RULES,
+  python: PYTHON_RULES,
+  json: JSON_RULES,
+  bash: BASH_RULES,
+  sql: SQL_RULES,
+  css: CSS_RULES,
+  html: HTML_RULES
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  python3: 'python',
+  jsonc: 'json',
+  json5: 'json',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  shellscript: 'bash',
+  postgres: 'sql',
+  postgresql: 'sql',
+  mysql: 'sql',
+  sqlite: 'sql',
+  scss: 'css',
+  less: 'css',
+  xml: 'html',
+  svg: 'html',
+  xhtml: 'html',
+  vue: 'html'
+};
+
+/**
+ * Lightweight regex-based syntax highlighter for code blocks.
+ * Supports JavaScript/TypeScript, Python, JSON, Bash, SQL, HTML and CSS.
+ * Tokens are wrapped in `<span class="tok-{type}">`; unknown languages
+ * are returned escaped without highlighting.
+ */
+export class CodeHighlighter {
+  /**
+   * Resolve a language name or alias (e.g. `ts`, `sh`) to a supported language.
+   */
+  static resolveLanguage(language: string): string | null {
+    const lang = (language || '').toLowerCase();
+    if (lang in LANGUAGES) return lang;
+    return ALIASES[lang] || null;
+  }
+
+  /**
+   * Check whether a language (or alias) is supported.
+   */
+  supports(language: string): boolean {
+    return CodeHighlighter.resolveLanguage(language) !== null;
+  }
+
+  /**
+   * Highlight code and return HTML.
+   */
+  highlight(code: string, language: string): string {
+    const lang = CodeHighlighter.resolveLanguage(language);
+    if (!lang) return this._escapeHtml(code);
+    return this._tokenize(code, LANGUAGES[lang]);
+  }
+
+  private _tokenize(code: string, rules: TokenRule[]): string {
+    let html = '';
+    let plain = '';
+    let pos = 0;
+
+    outer: while (pos < code.length) {
+      for (const rule of rules) {
+        if (rule.after && !rule.after.test(pos > 0 ? code[pos - 1] : '\n')) continue;
+        rule.pattern.lastIndex = pos;
+        const match = rule.pattern.exec(code);
+        if (!match || match[0].length === 0) continue;
+
+        const text = match[0];
+        const type = rule.classify ? rule.classify(text) : rule.type;
+        if (type === null) continue;
+
+        html += this._escapeHtml(plain);
+        plain = '';
+
+        const inner = rule.inside ? this._tokenize(text, rule.inside) : this._escapeHtml(text);
+        html += type ? `<span class="tok-${type}">${inner}</span>` : inner;
+        pos += text.length;
+        continue outer;
+      }
+
+      plain += code[pos];
+      pos++;
+    }
+
+    return html + this._escapeHtml(plain);
+  }
+
+  private _escapeHtml(text: string): string {
+    const map: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+    return text.replace(/[&<>"']/g, m => map[m]);
+  }
+}
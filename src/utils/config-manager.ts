@@ -12,18 +12,44 @@ export class ConfigManager {
     endpointUrl: '',
     endpointId: '',
     apiKey: '',
+    tokenEndpoint: '',
     position: 'bottom-right',
     title: 'Chat with us',
     welcomeMessage: 'Hello! How can I help you today?',
-    primaryColor: '#6366f1',
+    primaryColor: '#4f46e5',
     secondaryColor: '#818cf8',
     backgroundColor: '#ffffff',
     textColor: '#1f2937',
     storageKey: 'omnifact-chat',
+    storage: 'local',
     enablePersistence: true,
     enableInlineSources: false,
     enableAgenticWorkflow: false,
     hideSources: false,
+    streaming: true,
+    maxRetries: 3,
+    retryDelay: 1000,
+    allowedLinkProtocols: ['http', 'https', 'mailto'],
+    allowedLinkDomains: [],
+    linkRedirectUrl: '',
+    documentUrlTemplate: '',
+    enableFeedback: true,
+    feedbackUrl: '',
+    enableTabSync: true,
+    syncOpenState: false,
+    enableHandoff: false,
+    handoffUrl: '',
+    enableAttachments: false,
+    allowedAttachmentTypes: ['image/*', 'application/pdf', 'text/plain'],
+    maxAttachmentSize: 5 * 1024 * 1024,
+    maxAttachments: 5,
+    attachmentUploadUrl: '',
+    enableVoiceInput: false,
+    enableReadAloud: false,
+    autoReadAloud: false,
+    speechLanguage: '',
+    speechVoice: '',
+    speechRate: 1,
     debug: false
   };
 
@@ -31,6 +57,7 @@ export class ConfigManager {
     'endpoint-url': 'endpointUrl',
     'endpoint-id': 'endpointId',
     'api-key': 'apiKey',
+    'token-endpoint': 'tokenEndpoint',
     'position': 'position',
     'title': 'title',
     'welcome-message': 'welcomeMessage',
@@ -39,10 +66,35 @@ export class ConfigManager {
     'background-color': 'backgroundColor',
     'text-color': 'textColor',
     'storage-key': 'storageKey',
+    'storage': 'storage',
     'enable-persistence': 'enablePersistence',
     'enable-inline-sources': 'enableInlineSources',
     'enable-agentic-workflow': 'enableAgenticWorkflow',
     'hide-sources': 'hideSources',
+    'streaming': 'streaming',
+    'max-retries': 'maxRetries',
+    'retry-delay': 'retryDelay',
+    'allowed-link-protocols': 'allowedLinkProtocols',
+    'allowed-link-domains': 'allowedLinkDomains',
+    'link-redirect-url': 'linkRedirectUrl',
+    'document-url-template': 'documentUrlTemplate',
+    'enable-feedback': 'enableFeedback',
+    'feedback-url': 'feedbackUrl',
+    'enable-tab-sync': 'enableTabSync',
+    'sync-open-state': 'syncOpenState',
+    'enable-handoff': 'enableHandoff',
+    'handoff-url': 'handoffUrl',
+    'enable-attachments': 'enableAttachments',
+    'allowed-attachment-types': 'allowedAttachmentTypes',
+    'max-attachment-size': 'maxAttachmentSize',
+    'max-attachments': 'maxAttachments',
+    'attachment-upload-url': 'attachmentUploadUrl',
+    'enable-voice-input': 'enableVoiceInput',
+    'enable-read-aloud': 'enableReadAloud',
+    'auto-read-aloud': 'autoReadAloud',
+    'speech-language': 'speechLanguage',
+    'speech-voice': 'speechVoice',
+    'speech-rate': 'speechRate',
     'debug': 'debug'
   };
 
@@ -51,9 +103,32 @@ export class ConfigManager {
     'enableInlineSources',
     'enableAgenticWorkflow',
     'hideSources',
+    'enableFeedback',
+    'enableTabSync',
+    'syncOpenState',
+    'enableHandoff',
+    'enableAttachments',
+    'enableVoiceInput',
+    'enableReadAloud',
+    'autoReadAloud',
+    'streaming',
     'debug'
   ];
 
+  static numberAttributes: ConfigKey[] = [
+    'maxRetries',
+    'retryDelay',
+    'maxAttachmentSize',
+    'maxAttachments',
+    'speechRate'
+  ];
+
+  static listAttributes: ConfigKey[] = [
+    'allowedLinkProtocols',
+    'allowedLinkDomains',
+    'allowedAttachmentTypes'
+  ];
+
   private element: HTMLElement;
   private config: WidgetConfig;
 
@@ -103,6 +178,10 @@ export class ConfigManager {
         // Handle boolean attributes
         if (ConfigManager.booleanAttributes.includes(prop)) {
           (this.config as unknown as Record<string, unknown>)[prop] = value !== 'false';
+        } else if (ConfigManager.numberAttributes.includes(prop)) {
+          this._setNumber(prop, value);
+        } else if (ConfigManager.listAttributes.includes(prop)) {
+          (this.config as unknown as Record<string, unknown>)[prop] = this._parseList(value);
         } else {
           (this.config as unknown as Record<string, unknown>)[prop] = value;
         }
@@ -121,6 +200,10 @@ export class ConfigManager {
       // Handle boolean string conversions for boolean attributes
       if (ConfigManager.booleanAttributes.includes(camelKey as ConfigKey) && typeof value === 'string') {
         normalized[camelKey] = value !== 'false';
+      } else if (ConfigManager.numberAttributes.includes(camelKey as ConfigKey) && typeof value === 'string') {
+        normalized[camelKey] = Number(value);
+      } else if (ConfigManager.listAttributes.includes(camelKey as ConfigKey) && typeof value === 'string') {
+        normalized[camelKey] = this._parseList(value);
       } else {
         normalized[camelKey] = value;
       }
@@ -128,6 +211,25 @@ export class ConfigManager {
     return normalized as Partial<WidgetConfig>;
   }
 
+  /**
+   * Set a numeric config value, keeping the current value if the input is not a number.
+   */
+  private _setNumber(prop: ConfigKey, value: string): void {
+    const num = Number(value);
+    if (value.trim() !== '' && Number.isFinite(num)) {
+      (this.config as unknown as Record<string, unknown>)[prop] = num;
+    } else {
+      console.warn(`[OmnifactWidget] Invalid number for ${prop}:`, value);
+    }
+  }
+
+  /**
+   * Parse a comma-separated list attribute.
+   */
+  private _parseList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
   /**
    * Validate required configuration fields.
    */
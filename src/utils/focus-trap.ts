@@ -0,0 +1,86 @@
+const FOCUSABLE = 'a[href], area[href], button, input, select, textarea, summary, iframe, [tabindex], [contenteditable="true"]';
+
+/**
+ * Keeps keyboard focus inside a container, following the tab order
+ * through shadow roots and slots (the widget's parts are custom elements).
+ */
+export class FocusTrap {
+  /**
+   * Elements inside `root` that Tab can reach, in tab order
+   * (positive `tabindex` values aren't reordered).
+   */
+  static focusableElements(root: Element | ShadowRoot): HTMLElement[] {
+    const elements: HTMLElement[] = [];
+    collect(root, elements);
+    return elements;
+  }
+
+  /**
+   * The focused element, looking inside shadow roots.
+   */
+  static activeElement(root: Document | ShadowRoot = document): Element | null {
+    let active = root.activeElement;
+    while (active && active.shadowRoot && active.shadowRoot.activeElement) {
+      active = active.shadowRoot.activeElement;
+    }
+    return active;
+  }
+
+  /**
+   * Handle a Tab keydown inside `root`: wraps around from the last
+   * focusable element to the first, and back with Shift+Tab.
+   */
+  static handleTab(e: KeyboardEvent, root: Element | ShadowRoot): void {
+    const elements = FocusTrap.focusableElements(root);
+    if (elements.length === 0) {
+      e.preventDefault();
+      return;
+    }
+
+    const active = FocusTrap.activeElement();
+    const index = active ? elements.indexOf(active as HTMLElement) : -1;
+    if (e.shiftKey && index === 0) {
+      e.preventDefault();
+      elements[elements.length - 1].focus();
+    } else if (!e.shiftKey && index === elements.length - 1) {
+      e.preventDefault();
+      elements[0].focus();
+    }
+  }
+}
+
+function collect(root: Element | ShadowRoot, elements: HTMLElement[]): void {
+  for (const child of Array.from(root.children)) {
+    if (child instanceof HTMLSlotElement) {
+      const assigned = child.assignedNodes({ flatten: true });
+      if (assigned.length === 0) {
+        collect(child, elements);
+      } else {
+        assigned.forEach(node => {
+          if (node instanceof Element) visit(node, elements);
+        });
+      }
+    } else {
+      visit(child, elements);
+    }
+  }
+}
+
+function visit(element: Element, elements: HTMLElement[]): void {
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') return;
+  if (element instanceof HTMLElement && isTabbable(element)) {
+    elements.push(element);
+  }
+  // Tab skips the shadow tree of a host with a negative tabindex
+  if (element.shadowRoot && element.hasAttribute('tabindex') && (element as HTMLElement).tabIndex < 0) return;
+  // Light DOM children of a shadow host are reached through its slots
+  collect(element.shadowRoot || element, elements);
+}
+
+function isTabbable(element: HTMLElement): boolean {
+  return element.tabIndex >= 0 &&
+    element.matches(FOCUSABLE) &&
+    !element.matches(':disabled') &&
+    // Not rendered (e.g. inside a `display: none` parent)
+    element.getClientRects().length > 0;
+}
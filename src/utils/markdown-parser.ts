@@ -0,0 +1,1188 @@
+/**
+ * Inline AST nodes.
+ */
+export interface TextNode { type: 'text'; value: string }
+export interface CodeSpanNode { type: 'code'; value: string }
+export interface EntityNode { type: 'entity'; value: string }
+export interface HtmlInlineNode { type: 'html'; value: string }
+export interface BreakNode { type: 'break' }
+export interface SoftBreakNode { type: 'softbreak' }
+export interface EmphasisNode { type: 'emphasis' | 'strong' | 'strikethrough'; children: InlineNode[] }
+export interface LinkNode { type: 'link'; href: string; title: string | null; children: InlineNode[] }
+export interface ImageNode { type: 'image'; src: string; title: string | null; alt: string }
+
+export type InlineNode =
+  | TextNode
+  | CodeSpanNode
+  | EntityNode
+  | HtmlInlineNode
+  | BreakNode
+  | SoftBreakNode
+  | EmphasisNode
+  | LinkNode
+  | ImageNode;
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * Block AST nodes.
+ */
+export interface ParagraphNode { type: 'paragraph'; raw: string; children: InlineNode[] }
+export interface HeadingNode { type: 'heading'; level: number; raw: string; children: InlineNode[] }
+export interface CodeBlockNode { type: 'code_block'; lang: string; info: string; code: string; closed: boolean }
+export interface BlockquoteNode { type: 'blockquote'; children: BlockNode[] }
+export interface ListItemNode { children: BlockNode[]; checked: boolean | null }
+export interface ListNode { type: 'list'; ordered: boolean; start: number; tight: boolean; items: ListItemNode[] }
+export interface ThematicBreakNode { type: 'thematic_break' }
+export interface TableCell { raw: string; children: InlineNode[] }
+export interface TableNode { type: 'table'; align: TableAlign[]; header: TableCell[]; rows: TableCell[][] }
+export interface HtmlBlockNode { type: 'html_block'; value: string }
+
+export type BlockNode =
+  | ParagraphNode
+  | HeadingNode
+  | CodeBlockNode
+  | BlockquoteNode
+  | ListNode
+  | ThematicBreakNode
+  | TableNode
+  | HtmlBlockNode;
+
+/**
+ * Options for the markdown parser.
+ */
+export interface MarkdownParserOptions {
+  /** Recognize raw HTML blocks and inline tags (otherwise they are plain text). */
+  html?: boolean;
+}
+
+interface LinkReference {
+  href: string;
+  title: string | null;
+}
+
+interface ListMarker {
+  ordered: boolean;
+  /** Bullet character or ordered delimiter (`.` / `)`). */
+  char: string;
+  start: number;
+  contentIndent: number;
+  firstLine: string;
+}
+
+interface Delimiter {
+  node: TextNode;
+  char: string;
+  count: number;
+  origCount: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+interface Bracket {
+  node: TextNode;
+  image: boolean;
+  /** Position in the source after the opening bracket. */
+  sourcePos: number;
+  /** Number of delimiters on the stack when the bracket was opened. */
+  delimiterBottom: number;
+}
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const PUNCTUATION = /[!-/:-@[-`{-~¡-¿‐-‧‰-⁞　-〿]/;
+const WHITESPACE = /\s/;
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_MARKER = /^( {0,3})([-+*]|\d{1,9}[.)])(?=\s|$)( *)(.*)$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK = /^ {0,3}(?:<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s|\/?>|$)|<!--)/;
+const LINK_DEFINITION = /^ {0,3}\[((?:[^\\\]]|\\.){1,999})\]:[ \t]*(<[^<>\n]*>|\S+)(?:[ \t]+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t]*$/;
+const ENTITY = /^&(?:#[xX][0-9a-fA-F]{1,6}|#[0-9]{1,7}|[A-Za-z][A-Za-z0-9]{1,31});/;
+const AUTOLINK_URI = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\x00-\x20]*)>/;
+const AUTOLINK_EMAIL = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const INLINE_HTML = /^(?:<[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*\s*>|<!--[\s\S]*?-->)/;
+const EXTENDED_AUTOLINK = /^(?:https?:\/\/|www\.)[^\s<]*/;
+const REFERENCE_LABEL = /\[((?:[^\\\]]|\\.){0,999})\]/y;
+
+/**
+ * Deepest nesting of block quotes and lists, and of emphasis and links.
+ * Deeper markers are kept as text, so hostile input can't exhaust the stack.
+ */
+const MAX_NESTING = 32;
+/** Deepest nesting of parentheses in a link destination (as in cmark). */
+const MAX_LINK_PAREN_DEPTH = 32;
+
+/**
+ * Markdown parser producing a block/inline AST.
+ * Implements the CommonMark block and inline structure (headings, fenced
+ * and indented code, block quotes, nested ordered/bullet lists, thematic
+ * breaks, emphasis via delimiter runs, links, images, autolinks, escapes,
+ * hard breaks) plus the GFM extensions tables, task list items,
+ * strikethrough and bare URL autolinks.
+ */
+export class MarkdownParser {
+  private options: Required<MarkdownParserOptions>;
+  private references = new Map<string, LinkReference>();
+
+  constructor(options: MarkdownParserOptions = {}) {
+    this.options = {
+      html: false,
+      ...options
+    };
+  }
+
+  /**
+   * Parse markdown text into block nodes (with inline content resolved).
+   */
+  parse(text: string): BlockNode[] {
+    this.references = new Map();
+    const lines = this._normalize(text).split('\n');
+    const { blocks } = this._parseBlocks(lines, 0);
+    this._resolveInlines(blocks);
+    return blocks;
+  }
+
+  /**
+   * Parse a single line/paragraph of inline markdown.
+   */
+  parseInline(text: string): InlineNode[] {
+    return new InlineScanner(text, this.references, this.options.html).parse();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Block structure
+  // ---------------------------------------------------------------------------
+
+  private _normalize(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/\0/g, '�')
+      .split('\n')
+      .map(line => this._expandTabs(line))
+      .join('\n');
+  }
+
+  /**
+   * Expand tabs in leading whitespace to 4-column tab stops.
+   */
+  private _expandTabs(line: string): string {
+    if (!line.includes('\t')) return line;
+    let column = 0;
+    let i = 0;
+    let prefix = '';
+    for (; i < line.length; i++) {
+      const c = line[i];
+      if (c === ' ') {
+        prefix += ' ';
+        column++;
+      } else if (c === '\t') {
+        const width = 4 - (column % 4);
+        prefix += ' '.repeat(width);
+        column += width;
+      } else {
+        break;
+      }
+    }
+    return prefix + line.slice(i);
+  }
+
+  /**
+   * Parse lines into blocks. `depth` counts the enclosing block quotes and
+   * list items; at MAX_NESTING their markers are parsed as paragraph text.
+   */
+  private _parseBlocks(lines: string[], depth: number): { blocks: BlockNode[]; hasBlankBetween: boolean } {
+    const nested = depth < MAX_NESTING;
+    const blocks: BlockNode[] = [];
+    let hasBlankBetween = false;
+    let pendingBlank = false;
+    let i = 0;
+
+    const push = (block: BlockNode): void => {
+      if (pendingBlank && blocks.length > 0) hasBlankBetween = true;
+      pendingBlank = false;
+      blocks.push(block);
+    };
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (this._isBlank(line)) {
+        pendingBlank = true;
+        i++;
+        continue;
+      }
+
+      // Fenced code block
+      const fence = FENCE_OPEN.exec(line);
+      if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+        i = this._parseFencedCode(lines, i, fence, push);
+        continue;
+      }
+
+      // ATX heading
+      const heading = ATX_HEADING.exec(line);
+      if (heading) {
+        const raw = heading[2].replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim();
+        push({ type: 'heading', level: heading[1].length, raw, children: [] });
+        i++;
+        continue;
+      }
+
+      // Thematic break (before lists: "* * *" is a break, not an item)
+      if (THEMATIC_BREAK.test(line)) {
+        push({ type: 'thematic_break' });
+        i++;
+        continue;
+      }
+
+      // Block quote
+      if (nested && BLOCKQUOTE.test(line)) {
+        i = this._parseBlockquote(lines, i, depth, push);
+        continue;
+      }
+
+      // List
+      if (nested && this._matchListMarker(line)) {
+        i = this._parseList(lines, i, depth, push);
+        continue;
+      }
+
+      // Indented code block
+      if (this._indentOf(line) >= 4) {
+        i = this._parseIndentedCode(lines, i, push);
+        continue;
+      }
+
+      // HTML block
+      if (this.options.html && HTML_BLOCK.test(line)) {
+        const start = i;
+        while (i < lines.length && !this._isBlank(lines[i])) i++;
+        push({ type: 'html_block', value: lines.slice(start, i).join('\n') });
+        continue;
+      }
+
+      // Table
+      if (this._isTableStart(lines, i)) {
+        i = this._parseTable(lines, i, push);
+        continue;
+      }
+
+      i = this._parseParagraph(lines, i, nested, push);
+    }
+
+    return { blocks, hasBlankBetween };
+  }
+
+  private _parseFencedCode(
+    lines: string[],
+    start: number,
+    fence: RegExpExecArray,
+    push: (block: BlockNode) => void
+  ): number {
+    const indent = fence[1].length;
+    const marker = fence[2];
+    const info = this._unescape(fence[3].trim());
+    const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+
+    const content: string[] = [];
+    let i = start + 1;
+    let closed = false;
+    for (; i < lines.length; i++) {
+      if (closing.test(lines[i])) {
+        closed = true;
+        i++;
+        break;
+      }
+      // Remove up to the opening fence's indentation
+      const line = lines[i];
+      const strip = Math.min(indent, this._indentOf(line));
+      content.push(line.slice(strip));
+    }
+
+    push({
+      type: 'code_block',
+      lang: info.split(/\s+/)[0] || '',
+      info,
+      code: content.join('\n'),
+      closed
+    });
+    return i;
+  }
+
+  private _parseIndentedCode(lines: string[], start: number, push: (block: BlockNode) => void): number {
+    const content: string[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (this._isBlank(line)) {
+        content.push(line.slice(Math.min(4, line.length)));
+      } else if (this._indentOf(line) >= 4) {
+        content.push(line.slice(4));
+      } else {
+        break;
+      }
+    }
+    while (content.length > 0 && this._isBlank(content[content.length - 1])) content.pop();
+
+    push({ type: 'code_block', lang: '', info: '', code: content.join('\n'), closed: true });
+    return i;
+  }
+
+  private _parseBlockquote(lines: string[], start: number, depth: number, push: (block: BlockNode) => void): number {
+    const inner: string[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      const match = BLOCKQUOTE.exec(line);
+      if (match) {
+        inner.push(match[1]);
+        continue;
+      }
+      // Lazy continuation of a paragraph inside the quote
+      const last = inner[inner.length - 1];
+      if (!this._isBlank(line) && last !== undefined && !this._isBlank(last) && !this._interruptsParagraph(line)) {
+        inner.push(line);
+        continue;
+      }
+      break;
+    }
+
+    push({ type: 'blockquote', children: this._parseBlocks(inner, depth + 1).blocks });
+    return i;
+  }
+
+  private _matchListMarker(line: string): ListMarker | null {
+    const match = LIST_MARKER.exec(line);
+    if (!match) return null;
+
+    const indent = match[1].length;
+    const marker = match[2];
+    const spaces = match[3].length;
+    const rest = match[4];
+    const ordered = /\d/.test(marker[0]);
+
+    let contentIndent: number;
+    let firstLine: string;
+    if (rest === '') {
+      contentIndent = indent + marker.length + 1;
+      firstLine = '';
+    } else if (spaces > 4) {
+      // Content starts with an indented code block
+      contentIndent = indent + marker.length + 1;
+      firstLine = ' '.repeat(spaces - 1) + rest;
+    } else {
+      contentIndent = indent + marker.length + spaces;
+      firstLine = rest;
+    }
+
+    return {
+      ordered,
+      char: ordered ? marker[marker.length - 1] : marker,
+      start: ordered ? parseInt(marker, 10) : 1,
+      contentIndent,
+      firstLine
+    };
+  }
+
+  private _parseList(lines: string[], start: number, depth: number, push: (block: BlockNode) => void): number {
+    const first = this._matchListMarker(lines[start])!;
+    const items: ListItemNode[] = [];
+    let loose = false;
+    let i = start;
+
+    while (i < lines.length) {
+      const marker = this._matchListMarker(lines[i]);
+      if (!marker || marker.ordered !== first.ordered || marker.char !== first.char) break;
+      // A thematic break ends the list
+      if (THEMATIC_BREAK.test(lines[i])) break;
+
+      const itemLines = [marker.firstLine];
+      i++;
+
+      while (i < lines.length) {
+        const line = lines[i];
+        if (this._isBlank(line)) {
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        if (this._indentOf(line) >= marker.contentIndent) {
+          itemLines.push(line.slice(marker.contentIndent));
+          i++;
+          continue;
+        }
+        // Lazy paragraph continuation
+        const last = itemLines[itemLines.length - 1];
+        if (!this._isBlank(last) && !this._interruptsParagraph(line) && !this._matchListMarker(line) &&
+            !FENCE_OPEN.test(last) && this._indentOf(last) < 4) {
+          itemLines.push(line.trimStart());
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      let trailingBlanks = 0;
+      while (itemLines.length > 1 && this._isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.pop();
+        trailingBlanks++;
+      }
+
+      // GFM task list item
+      let checked: boolean | null = null;
+      const task = /^\[([ xX])\](?:[ \t]+|$)/.exec(itemLines[0]);
+      if (task && (itemLines[0].length > task[0].length || itemLines.length > 1)) {
+        checked = task[1] !== ' ';
+        itemLines[0] = itemLines[0].slice(task[0].length);
+      }
+
+      const { blocks, hasBlankBetween } = this._parseBlocks(itemLines, depth + 1);
+      if (hasBlankBetween) loose = true;
+      items.push({ children: blocks, checked });
+
+      if (trailingBlanks > 0) {
+        const next = i < lines.length ? this._matchListMarker(lines[i]) : null;
+        if (next && next.ordered === first.ordered && next.char === first.char && !THEMATIC_BREAK.test(lines[i])) {
+          loose = true;
+        } else {
+          break;
+        }
+      }
+    }
+
+    push({ type: 'list', ordered: first.ordered, start: first.start, tight: !loose, items });
+    return i;
+  }
+
+  private _isTableStart(lines: string[], i: number): boolean {
+    const header = lines[i];
+    const delimiter = lines[i + 1];
+    if (delimiter === undefined || !header.includes('|') || !TABLE_DELIMITER.test(delimiter)) return false;
+    // The delimiter row needs at least one pipe or dash-only single column with pipes in the header
+    if (!delimiter.includes('|') && !header.trim().startsWith('|')) return false;
+    return this._splitTableRow(header).length === this._splitTableRow(delimiter).length;
+  }
+
+  private _parseTable(lines: string[], start: number, push: (block: BlockNode) => void): number {
+    const header = this._splitTableRow(lines[start]);
+    const align: TableAlign[] = this._splitTableRow(lines[start + 1]).map(cell => {
+      const left = cell.startsWith(':');
+      const right = cell.endsWith(':');
+      if (left && right) return 'center';
+      if (right) return 'right';
+      if (left) return 'left';
+      return null;
+    });
+
+    const rows: TableCell[][] = [];
+    let i = start + 2;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (this._isBlank(line) || this._interruptsParagraph(line)) break;
+      const cells = this._splitTableRow(line);
+      // Rows are padded or truncated to the header width
+      const row: TableCell[] = header.map((_, index) => ({ raw: cells[index] || '', children: [] }));
+      rows.push(row);
+    }
+
+    push({
+      type: 'table',
+      align,
+      header: header.map(raw => ({ raw, children: [] })),
+      rows
+    });
+    return i;
+  }
+
+  /**
+   * Split a table row on unescaped pipes, dropping the optional outer pipes.
+   */
+  private _splitTableRow(line: string): string[] {
+    let text = line.trim();
+    if (text.startsWith('|')) text = text.slice(1);
+    if (text.endsWith('|') && !text.endsWith('\\|')) text = text.slice(0, -1);
+
+    const cells: string[] = [];
+    let current = '';
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (c === '\\' && text[i + 1] === '|') {
+        current += '|';
+        i++;
+      } else if (c === '|') {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += c;
+      }
+    }
+    cells.push(current.trim());
+    return cells;
+  }
+
+  private _parseParagraph(lines: string[], start: number, nested: boolean, push: (block: BlockNode) => void): number {
+    const content: string[] = [lines[start].trim()];
+    let i = start + 1;
+
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (this._isBlank(line)) break;
+
+      // Setext heading underline
+      const setext = SETEXT_UNDERLINE.exec(line);
+      if (setext) {
+        const raw = this._stripReferenceDefinitions(content).join('\n').trim();
+        if (raw) {
+          push({ type: 'heading', level: setext[1][0] === '=' ? 1 : 2, raw, children: [] });
+          return i + 1;
+        }
+      }
+
+      if (this._interruptsParagraph(line, nested) || this._isTableStart(lines, i)) break;
+      content.push(line.trimStart());
+    }
+
+    const remaining = this._stripReferenceDefinitions(content);
+    if (remaining.length > 0) {
+      push({ type: 'paragraph', raw: remaining.join('\n').replace(/[ \t]+$/, ''), children: [] });
+    }
+    return i;
+  }
+
+  /**
+   * Collect link reference definitions at the start of a paragraph.
+   * Returns the remaining paragraph lines.
+   */
+  private _stripReferenceDefinitions(lines: string[]): string[] {
+    let index = 0;
+    while (index < lines.length) {
+      const match = LINK_DEFINITION.exec(lines[index]);
+      if (!match) break;
+
+      const label = this._normalizeLabel(match[1]);
+      if (label && !this.references.has(label)) {
+        let href = match[2];
+        if (href.startsWith('<')) href = href.slice(1, -1);
+        const title = match[3] ? this._unescape(match[3].slice(1, -1)) : null;
+        this.references.set(label, { href: this._unescape(href), title });
+      }
+      index++;
+    }
+    return lines.slice(index);
+  }
+
+  /**
+   * Check whether a line starts a block that can interrupt a paragraph.
+   * Without `nested`, block quote and list markers don't.
+   */
+  private _interruptsParagraph(line: string, nested = true): boolean {
+    if (ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || (nested && BLOCKQUOTE.test(line))) return true;
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) return true;
+
+    if (this.options.html && HTML_BLOCK.test(line)) return true;
+
+    // Only non-empty list items (and ordered lists starting at 1) interrupt a paragraph
+    const marker = nested ? this._matchListMarker(line) : null;
+    return !!marker && marker.firstLine.trim() !== '' && (!marker.ordered || marker.start === 1);
+  }
+
+  private _resolveInlines(blocks: BlockNode[]): void {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          block.children = this.parseInline(block.raw);
+          break;
+        case 'blockquote':
+          this._resolveInlines(block.children);
+          break;
+        case 'list':
+          block.items.forEach(item => this._resolveInlines(item.children));
+          break;
+        case 'table':
+          block.header.forEach(cell => { cell.children = this.parseInline(cell.raw); });
+          block.rows.forEach(row => row.forEach(cell => { cell.children = this.parseInline(cell.raw); }));
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  private _isBlank(line: string): boolean {
+    return /^[ \t]*$/.test(line);
+  }
+
+  private _indentOf(line: string): number {
+    const match = /^ */.exec(line);
+    return match ? match[0].length : 0;
+  }
+
+  private _normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private _unescape(text: string): string {
+    return text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+  }
+}
+
+/**
+ * Inline scanner for a single block's text.
+ * Uses the CommonMark delimiter stack for emphasis, strong emphasis and
+ * strikethrough, and a bracket stack for links and images.
+ */
+class InlineScanner {
+  private nodes: InlineNode[] = [];
+  private delimiters: Delimiter[] = [];
+  private brackets: Bracket[] = [];
+  /** Brackets below this index can't open links (no links inside links). */
+  private linkBottom = 0;
+  /** Nesting depth of emphasis and link nodes. */
+  private depths = new WeakMap<InlineNode, number>();
+  /**
+   * Position from which no unescaped title closer follows, by closer
+   * character, so failed link titles aren't rescanned from every opener.
+   */
+  private noCloserFrom = new Map<string, number>();
+  private text = '';
+  private pos = 0;
+
+  constructor(
+    private source: string,
+    private references: Map<string, LinkReference>,
+    private allowHtml: boolean
+  ) {}
+
+  parse(): InlineNode[] {
+    const src = this.source;
+
+    while (this.pos < src.length) {
+      const c = src[this.pos];
+
+      switch (c) {
+        case '\\':
+          this._backslash();
+          break;
+        case '`':
+          this._codeSpan();
+          break;
+        case '*':
+        case '_':
+        case '~':
+          this._delimiterRun(c);
+          break;
+        case '[':
+          this._openBracket(false);
+          break;
+        case '!':
+          if (src[this.pos + 1] === '[') {
+            this._openBracket(true);
+          } else {
+            this._appendText(c);
+            this.pos++;
+          }
+          break;
+        case ']':
+          this._closeBracket();
+          break;
+        case '<':
+          this._angleBracket();
+          break;
+        case '&':
+          this._entity();
+          break;
+        case '\n':
+          this._lineBreak();
+          break;
+        case 'h':
+        case 'w':
+          this._extendedAutolink();
+          break;
+        default:
+          this._appendText(c);
+          this.pos++;
+      }
+    }
+
+    this._flushText();
+    this._processEmphasis(0);
+    return this.nodes;
+  }
+
+  private _appendText(text: string): void {
+    this.text += text;
+  }
+
+  private _flushText(): void {
+    if (this.text) {
+      this.nodes.push({ type: 'text', value: this.text });
+      this.text = '';
+    }
+  }
+
+  private _pushNode(node: InlineNode): void {
+    this._flushText();
+    this.nodes.push(node);
+  }
+
+  private _backslash(): void {
+    const next = this.source[this.pos + 1];
+    if (next === '\n') {
+      this._pushNode({ type: 'break' });
+      this.pos += 2;
+      this._skipLeadingSpaces();
+    } else if (next !== undefined && ESCAPABLE.test(next)) {
+      this._appendText(next);
+      this.pos += 2;
+    } else {
+      this._appendText('\\');
+      this.pos++;
+    }
+  }
+
+  private _codeSpan(): void {
+    const src = this.source;
+    const start = this.pos;
+    let runEnd = start;
+    while (src[runEnd] === '`') runEnd++;
+    const length = runEnd - start;
+
+    // Find a closing run of exactly the same length
+    let search = runEnd;
+    while (search < src.length) {
+      const open = src.indexOf('`', search);
+      if (open === -1) break;
+      let close = open;
+      while (src[close] === '`') close++;
+      if (close - open === length) {
+        let value = src.slice(runEnd, open).replace(/\n/g, ' ');
+        if (value.length > 2 && value[0] === ' ' && value[value.length - 1] === ' ' && value.trim() !== '') {
+          value = value.slice(1, -1);
+        }
+        this._pushNode({ type: 'code', value });
+        this.pos = close;
+        return;
+      }
+      search = close;
+    }
+
+    // No closer - literal backticks
+    this._appendText(src.slice(start, runEnd));
+    this.pos = runEnd;
+  }
+
+  private _delimiterRun(char: string): void {
+    const src = this.source;
+    const start = this.pos;
+    let end = start;
+    while (src[end] === char) end++;
+    const count = end - start;
+
+    // GFM strikethrough only uses runs of one or two tildes
+    if (char === '~' && count > 2) {
+      this._appendText(src.slice(start, end));
+      this.pos = end;
+      return;
+    }
+
+    const before = start > 0 ? src[start - 1] : '\n';
+    const after = end < src.length ? src[end] : '\n';
+    const beforeSpace = WHITESPACE.test(before);
+    const afterSpace = WHITESPACE.test(after);
+    const beforePunct = PUNCTUATION.test(before);
+    const afterPunct = PUNCTUATION.test(after);
+
+    const leftFlanking = !afterSpace && (!afterPunct || beforeSpace || beforePunct);
+    const rightFlanking = !beforeSpace && (!beforePunct || afterSpace || afterPunct);
+
+    let canOpen: boolean;
+    let canClose: boolean;
+    if (char === '_') {
+      canOpen = leftFlanking && (!rightFlanking || beforePunct);
+      canClose = rightFlanking && (!leftFlanking || afterPunct);
+    } else {
+      canOpen = leftFlanking;
+      canClose = rightFlanking;
+    }
+
+    this._flushText();
+    const node: TextNode = { type: 'text', value: src.slice(start, end) };
+    this.nodes.push(node);
+    if (canOpen || canClose) {
+      this.delimiters.push({ node, char, count, origCount: count, canOpen, canClose });
+    }
+    this.pos = end;
+  }
+
+  private _openBracket(image: boolean): void {
+    this._flushText();
+    const node: TextNode = { type: 'text', value: image ? '![' : '[' };
+    this.nodes.push(node);
+    this.pos += image ? 2 : 1;
+    this.brackets.push({
+      node,
+      image,
+      sourcePos: this.pos,
+      delimiterBottom: this.delimiters.length
+    });
+  }
+
+  private _closeBracket(): void {
+    const bracket = this.brackets.pop();
+    const closePos = this.pos;
+    this.pos++;
+
+    if (!bracket) {
+      this._appendText(']');
+      return;
+    }
+    const active = bracket.image || this.brackets.length >= this.linkBottom;
+    this.linkBottom = Math.min(this.linkBottom, this.brackets.length);
+    if (!active) {
+      this._appendText(']');
+      return;
+    }
+
+    const target = this._parseLinkTarget(this.pos) || this._parseReference(bracket, closePos);
+    if (!target) {
+      this._appendText(']');
+      return;
+    }
+
+    this._flushText();
+    this.pos = target.end;
+
+    // Emphasis inside the link text is resolved before wrapping it
+    this._processEmphasis(bracket.delimiterBottom);
+
+    const index = this.nodes.lastIndexOf(bracket.node);
+    const children = this.nodes.splice(index + 1);
+    this.nodes.pop();
+
+    if (bracket.image) {
+      this.nodes.push({ type: 'image', src: target.href, title: target.title, alt: this._plainText(children) });
+    } else {
+      const link: LinkNode = { type: 'link', href: target.href, title: target.title, children };
+      this.depths.set(link, this._nestingOf(children));
+      this.nodes.push(link);
+      // No links inside links
+      this.linkBottom = this.brackets.length;
+    }
+  }
+
+  /**
+   * Parse an inline link target `(dest "title")` starting at `start`.
+   */
+  private _parseLinkTarget(start: number): { href: string; title: string | null; end: number } | null {
+    const src = this.source;
+    if (src[start] !== '(') return null;
+
+    let i = start + 1;
+    const skipSpace = (): void => {
+      while (i < src.length && /[ \t\n]/.test(src[i])) i++;
+    };
+    skipSpace();
+
+    // Destination
+    let href = '';
+    if (src[i] === '<') {
+      let close = i + 1;
+      while (src[close] !== '>') {
+        if (close >= src.length || src[close] === '\n' || src[close] === '<') return null;
+        close += src[close] === '\\' && ESCAPABLE.test(src[close + 1] || '') ? 2 : 1;
+      }
+      href = src.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      let depth = 0;
+      const destStart = i;
+      while (i < src.length) {
+        const c = src[i];
+        if (c === '\\' && i + 1 < src.length && ESCAPABLE.test(src[i + 1])) {
+          i += 2;
+          continue;
+        }
+        if (/[\s\x00-\x1f]/.test(c)) break;
+        if (c === '(' && ++depth > MAX_LINK_PAREN_DEPTH) return null;
+        if (c === ')') {
+          if (depth === 0) break;
+          depth--;
+        }
+        i++;
+      }
+      if (depth !== 0) return null;
+      href = src.slice(destStart, i);
+    }
+
+    // Optional title
+    const beforeTitle = i;
+    skipSpace();
+    let title: string | null = null;
+    const opener = src[i];
+    if (i > beforeTitle && (opener === '"' || opener === "'" || opener === '(')) {
+      const closer = opener === '(' ? ')' : opener;
+      if (i >= (this.noCloserFrom.get(closer) ?? Infinity)) return null;
+      let j = i + 1;
+      while (j < src.length && src[j] !== closer) {
+        if (src[j] === '\\') j++;
+        j++;
+      }
+      if (j >= src.length) {
+        this.noCloserFrom.set(closer, i);
+        return null;
+      }
+      title = this._unescape(src.slice(i + 1, j));
+      i = j + 1;
+      skipSpace();
+    }
+
+    if (src[i] !== ')') return null;
+    return { href: this._unescape(href), title, end: i + 1 };
+  }
+
+  /**
+   * Resolve a full, collapsed or shortcut reference link.
+   */
+  private _parseReference(bracket: Bracket, closePos: number): { href: string; title: string | null; end: number } | null {
+    if (this.references.size === 0) return null;
+
+    let label: string | null = null;
+    let end = this.pos;
+
+    REFERENCE_LABEL.lastIndex = this.pos;
+    const full = REFERENCE_LABEL.exec(this.source);
+    if (full) {
+      if (full[1].trim()) label = full[1];
+      end = this.pos + full[0].length;
+    }
+    // Collapsed and shortcut references use the link text as label
+    if (label === null) {
+      if (closePos - bracket.sourcePos > 999) return null;
+      label = this.source.slice(bracket.sourcePos, closePos);
+    }
+
+    const ref = this.references.get(label.trim().replace(/\s+/g, ' ').toLowerCase());
+    if (!ref) return null;
+    return { href: ref.href, title: ref.title, end };
+  }
+
+  private _angleBracket(): void {
+    const rest = this.source.slice(this.pos);
+
+    const uri = AUTOLINK_URI.exec(rest);
+    if (uri) {
+      this._pushNode({ type: 'link', href: uri[1], title: null, children: [{ type: 'text', value: uri[1] }] });
+      this.pos += uri[0].length;
+      return;
+    }
+
+    const email = AUTOLINK_EMAIL.exec(rest);
+    if (email) {
+      this._pushNode({ type: 'link', href: `mailto:${email[1]}`, title: null, children: [{ type: 'text', value: email[1] }] });
+      this.pos += email[0].length;
+      return;
+    }
+
+    if (this.allowHtml) {
+      const html = INLINE_HTML.exec(rest);
+      if (html) {
+        this._pushNode({ type: 'html', value: html[0] });
+        this.pos += html[0].length;
+        return;
+      }
+    }
+
+    this._appendText('<');
+    this.pos++;
+  }
+
+  private _entity(): void {
+    const match = ENTITY.exec(this.source.slice(this.pos));
+    if (match) {
+      this._pushNode({ type: 'entity', value: match[0] });
+      this.pos += match[0].length;
+    } else {
+      this._appendText('&');
+      this.pos++;
+    }
+  }
+
+  private _lineBreak(): void {
+    // Two or more trailing spaces make a hard break
+    const hard = /  +$/.test(this.text);
+    this.text = this.text.replace(/ +$/, '');
+    this._pushNode({ type: hard ? 'break' : 'softbreak' });
+    this.pos++;
+    this._skipLeadingSpaces();
+  }
+
+  private _skipLeadingSpaces(): void {
+    while (this.source[this.pos] === ' ') this.pos++;
+  }
+
+  /**
+   * GFM extended autolinks: bare `http(s)://` and `www.` URLs.
+   */
+  private _extendedAutolink(): void {
+    const src = this.source;
+    const before = this.pos > 0 ? src[this.pos - 1] : ' ';
+    const match = /[\s*_~(]/.test(before) ? EXTENDED_AUTOLINK.exec(src.slice(this.pos)) : null;
+
+    if (!match) {
+      this._appendText(src[this.pos]);
+      this.pos++;
+      return;
+    }
+
+    let url = match[0];
+    // Trailing punctuation is not part of the link
+    while (/[?!.,:*_~'"]$/.test(url)) url = url.slice(0, -1);
+    // Unbalanced closing parentheses are not part of the link
+    while (url.endsWith(')') && (url.match(/\)/g) || []).length > (url.match(/\(/g) || []).length) {
+      url = url.slice(0, -1);
+    }
+
+    const host = url.replace(/^https?:\/\//, '').split(/[/?#]/)[0];
+    if (!host.includes('.') && !url.startsWith('http')) {
+      this._appendText(src[this.pos]);
+      this.pos++;
+      return;
+    }
+    if (!host || (url.startsWith('www.') && host.length <= 4)) {
+      this._appendText(src[this.pos]);
+      this.pos++;
+      return;
+    }
+
+    const href = url.startsWith('www.') ? `http://${url}` : url;
+    this._pushNode({ type: 'link', href, title: null, children: [{ type: 'text', value: url }] });
+    this.pos += url.length;
+  }
+
+  /**
+   * Match emphasis delimiters above `bottom` (CommonMark "process emphasis").
+   */
+  private _processEmphasis(bottom: number): void {
+    const delimiters = this.delimiters;
+    let closerIndex = bottom;
+
+    while (closerIndex < delimiters.length) {
+      const closer = delimiters[closerIndex];
+      if (!closer.canClose) {
+        closerIndex++;
+        continue;
+      }
+
+      // Look back for a matching opener
+      let openerIndex = -1;
+      for (let i = closerIndex - 1; i >= bottom; i--) {
+        const opener = delimiters[i];
+        if (opener.char !== closer.char || !opener.canOpen) continue;
+
+        if (closer.char === '~') {
+          if (opener.count === closer.count) {
+            openerIndex = i;
+            break;
+          }
+          continue;
+        }
+
+        // "Rule of 3" for runs that can both open and close
+        const oddMatch = (opener.canClose || closer.canOpen) &&
+          (opener.origCount + closer.origCount) % 3 === 0 &&
+          !(opener.origCount % 3 === 0 && closer.origCount % 3 === 0);
+        if (!oddMatch) {
+          openerIndex = i;
+          break;
+        }
+      }
+
+      if (openerIndex === -1) {
+        closerIndex++;
+        continue;
+      }
+
+      const opener = delimiters[openerIndex];
+      const openIdx = this.nodes.indexOf(opener.node);
+      const closeIdx = this.nodes.indexOf(closer.node);
+      const children = this.nodes.slice(openIdx + 1, closeIdx);
+      const depth = this._nestingOf(children);
+      // Too deeply nested: the delimiters stay text
+      if (depth > MAX_NESTING) {
+        closerIndex++;
+        continue;
+      }
+
+      const use = closer.char === '~' ? closer.count : (opener.count >= 2 && closer.count >= 2 ? 2 : 1);
+      const type: EmphasisNode['type'] = closer.char === '~' ? 'strikethrough' : use === 2 ? 'strong' : 'emphasis';
+      const node: EmphasisNode = { type, children };
+      this.depths.set(node, depth);
+      this.nodes.splice(openIdx + 1, closeIdx - openIdx - 1, node);
+
+      // Delimiters between opener and closer can no longer match
+      delimiters.splice(openerIndex + 1, closerIndex - openerIndex - 1);
+      closerIndex = openerIndex + 1;
+
+      opener.count -= use;
+      opener.node.value = opener.node.value.slice(use);
+      closer.count -= use;
+      closer.node.value = closer.node.value.slice(use);
+
+      if (opener.count === 0) {
+        this.nodes.splice(this.nodes.indexOf(opener.node), 1);
+        delimiters.splice(openerIndex, 1);
+        closerIndex--;
+      }
+      if (closer.count === 0) {
+        this.nodes.splice(this.nodes.indexOf(closer.node), 1);
+        delimiters.splice(closerIndex, 1);
+      }
+    }
+
+    delimiters.length = bottom;
+  }
+
+  /**
+   * Nesting depth of a node wrapping `children`.
+   */
+  private _nestingOf(children: InlineNode[]): number {
+    let depth = 0;
+    for (const child of children) {
+      depth = Math.max(depth, this.depths.get(child) ?? 0);
+    }
+    return depth + 1;
+  }
+
+  private _plainText(nodes: InlineNode[]): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.value;
+        case 'emphasis':
+        case 'strong':
+        case 'strikethrough':
+        case 'link':
+          return this._plainText(node.children);
+        case 'image':
+          return node.alt;
+        case 'softbreak':
+        case 'break':
+          return ' ';
+        default:
+          return '';
+      }
+    }).join('');
+  }
+
+  private _unescape(text: string): string {
+    return text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+  }
+}
@@ -1,24 +1,50 @@
+import { MarkdownParser } from './markdown-parser';
+import { UrlSanitizer } from './url-sanitizer';
+import { CodeHighlighter } from './code-highlighter';
+import type { HighlightFunction } from './code-highlighter';
+import type { BlockNode, InlineNode, ListNode, TableNode } from './markdown-parser';
+
 /**
  * Options for the markdown renderer.
  */
 export interface MarkdownRendererOptions {
   sanitize?: boolean;
   linkTarget?: string;
+  /** Render single line breaks inside paragraphs as `<br>` (chat style). */
+  breaks?: boolean;
+  /** Checks (and optionally rewrites) link and image URLs. */
+  urlSanitizer?: UrlSanitizer;
+  /** Highlight fenced code blocks with the built-in highlighter. */
+  highlightCode?: boolean;
+  /** External highlighter, tried before the built-in one. */
+  highlight?: HighlightFunction | null;
 }
 
 /**
- * Lightweight markdown renderer for chat messages.
- * Supports common markdown elements without external dependencies.
+ * Markdown renderer for chat messages.
+ * Parses CommonMark (plus GFM tables, task lists, strikethrough and
+ * autolinks) into an AST and renders it to HTML without external
+ * dependencies. With `sanitize` enabled, raw HTML is rendered as text.
+ * Link and image URLs always go through the URL sanitizer; links that are
+ * not allowed are rendered as plain text. Images are only shown from the
+ * sanitizer's allowed domains, otherwise they are rendered as links.
  */
 export class MarkdownRenderer {
   private options: Required<MarkdownRendererOptions>;
+  private parser: MarkdownParser;
+  private highlighter = new CodeHighlighter();
 
   constructor(options: MarkdownRendererOptions = {}) {
     this.options = {
       sanitize: true,
       linkTarget: '_blank',
+      breaks: true,
+      urlSanitizer: new UrlSanitizer(),
+      highlightCode: true,
+      highlight: null,
       ...options
     };
+    this.parser = new MarkdownParser({ html: !this.options.sanitize });
   }
 
   /**
@@ -26,155 +52,195 @@ export class MarkdownRenderer {
    */
   render(text: string): string {
     if (!text) return '';
-
-    let html = this.options.sanitize ? this._escapeHtml(text) : text;
-
-    // Process in order of specificity (code blocks first to avoid conflicts)
-    html = this._renderCodeBlocks(html);
-    html = this._renderInlineCode(html);
-    html = this._renderHeaders(html);
-    html = this._renderBold(html);
-    html = this._renderItalic(html);
-    html = this._renderLinks(html);
-    html = this._renderLists(html);
-    html = this._renderLineBreaks(html);
-
-    return html;
+    return this.renderBlocks(this.parser.parse(text));
   }
 
   /**
-   * Escape HTML special characters.
+   * Render parsed block nodes to HTML.
    */
-  private _escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;'
-    };
-    return text.replace(/[&<>"']/g, m => map[m]);
+  renderBlocks(blocks: BlockNode[], tight = false): string {
+    return blocks.map(block => this._renderBlock(block, tight)).join('\n');
   }
 
   /**
-   * Render fenced code blocks.
-   * ```lang
-   * code
-   * ```
+   * Render parsed inline nodes to HTML.
    */
-  private _renderCodeBlocks(text: string): string {
-    return text.replace(
-      /```(\w*)\n([\s\S]*?)```/g,
-      (_, lang: string, code: string) => {
-        const langClass = lang ? ` class="language-${lang}"` : '';
-        return `<pre><code${langClass}>${code.trim()}</code></pre>`;
+  renderInline(nodes: InlineNode[]): string {
+    return nodes.map(node => this._renderInlineNode(node)).join('');
+  }
+
+  private _renderBlock(block: BlockNode, tight: boolean): string {
+    switch (block.type) {
+      case 'paragraph': {
+        const content = this.renderInline(block.children);
+        return tight ? content : `<p>${content}</p>`;
+      }
+      case 'heading': {
+        // Chat messages start at h2 so headings don't overpower the widget title
+        const level = Math.min(block.level + 1, 6);
+        return `<h${level}>${this.renderInline(block.children)}</h${level}>`;
       }
-    );
+      case 'code_block': {
+        const langClass = block.lang ? ` class="language-${this._escapeHtml(block.lang)}"` : '';
+        return `<pre><code${langClass}>${this._highlightCode(block.code, block.lang)}</code></pre>`;
+      }
+      case 'blockquote':
+        return `<blockquote>\n${this.renderBlocks(block.children)}\n</blockquote>`;
+      case 'list':
+        return this._renderList(block);
+      case 'thematic_break':
+        return '<hr>';
+      case 'table':
+        return this._renderTable(block);
+      case 'html_block':
+        return this.options.sanitize ? `<p>${this._escapeHtml(block.value)}</p>` : this._sanitizeHtml(block.value);
+      default:
+        return '';
+    }
   }
 
-  /**
-   * Render inline code.
-   * `code`
-   */
-  private _renderInlineCode(text: string): string {
-    return text.replace(/`([^`]+)`/g, '<code>$1</code>');
+  private _renderList(list: ListNode): string {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+
+    const items = list.items.map(item => {
+      const content = this.renderBlocks(item.children, list.tight);
+      if (item.checked === null) {
+        return `<li>${content}</li>`;
+      }
+      const checkbox = `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+      // In loose lists the checkbox goes inside the first paragraph
+      const body = content.startsWith('<p>') ? `<p>${checkbox}${content.slice(3)}` : checkbox + content;
+      return `<li class="task-list-item">${body}</li>`;
+    });
+
+    return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
   }
 
-  /**
-   * Render headers.
-   * # H1, ## H2, ### H3
-   */
-  private _renderHeaders(text: string): string {
-    return text
-      .replace(/^### (.+)$/gm, '<h4>$1</h4>')
-      .replace(/^## (.+)$/gm, '<h3>$1</h3>')
-      .replace(/^# (.+)$/gm, '<h2>$1</h2>');
+  private _renderTable(table: TableNode): string {
+    const alignAttr = (index: number): string => {
+      const align = table.align[index];
+      return align ? ` style="text-align: ${align}"` : '';
+    };
+
+    const header = table.header
+      .map((cell, index) => `<th${alignAttr(index)}>${this.renderInline(cell.children)}</th>`)
+      .join('');
+    const rows = table.rows
+      .map(row => `<tr>${row.map((cell, index) => `<td${alignAttr(index)}>${this.renderInline(cell.children)}</td>`).join('')}</tr>`)
+      .join('\n');
+
+    return `<table>\n<thead><tr>${header}</tr></thead>${rows ? `\n<tbody>\n${rows}\n</tbody>` : ''}\n</table>`;
   }
 
-  /**
-   * Render bold text.
-   * **bold** or __bold__
-   */
-  private _renderBold(text: string): string {
-    return text.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, g1: string, g2: string) => `<strong>${g1 || g2}</strong>`);
+  private _renderInlineNode(node: InlineNode): string {
+    switch (node.type) {
+      case 'text':
+        return this._escapeHtml(node.value);
+      case 'code':
+        return `<code>${this._escapeHtml(node.value)}</code>`;
+      case 'entity':
+        return node.value;
+      case 'html':
+        return this.options.sanitize ? this._escapeHtml(node.value) : this._sanitizeHtml(node.value);
+      case 'break':
+        return '<br>\n';
+      case 'softbreak':
+        return this.options.breaks ? '<br>\n' : '\n';
+      case 'emphasis':
+        return `<em>${this.renderInline(node.children)}</em>`;
+      case 'strong':
+        return `<strong>${this.renderInline(node.children)}</strong>`;
+      case 'strikethrough':
+        return `<del>${this.renderInline(node.children)}</del>`;
+      case 'link':
+        return this._renderLink(node.href, node.title, this.renderInline(node.children));
+      case 'image': {
+        const src = this.options.urlSanitizer.sanitizeImage(node.src);
+        if (!src) {
+          // Nothing is loaded from other hosts without a click
+          return this._renderLink(node.src, node.title, this._escapeHtml(node.alt || node.src));
+        }
+        const title = node.title ? ` title="${this._escapeHtml(node.title)}"` : '';
+        return `<img src="${this._escapeHtml(src)}" alt="${this._escapeHtml(node.alt)}"${title}>`;
+      }
+      default:
+        return '';
+    }
   }
 
   /**
-   * Render italic text.
-   * *italic* or _italic_ (but not within words)
+   * Highlight code with the external hook, falling back to the built-in highlighter.
    */
-  private _renderItalic(text: string): string {
-    // Match *text* but not **text** (already handled)
-    return text.replace(/(?<!\*)\*([^*]+)\*(?!\*)/g, '<em>$1</em>');
+  private _highlightCode(code: string, lang: string): string {
+    if (this.options.highlight) {
+      try {
+        const html = this.options.highlight(code, lang);
+        if (typeof html === 'string') return html;
+      } catch (e) {
+        console.error('[OmnifactWidget] Highlighter failed:', e);
+      }
+    }
+    if (this.options.highlightCode && lang) {
+      return this.highlighter.highlight(code, lang);
+    }
+    return this._escapeHtml(code);
   }
 
   /**
-   * Render links.
-   * [text](url)
+   * Render a link, or just its content if the URL is not allowed.
+   * External links get an indicator icon.
    */
-  private _renderLinks(text: string): string {
-    const target = this.options.linkTarget;
-    return text.replace(
-      /\[([^\]]+)\]\(([^)]+)\)/g,
-      `<a href="$2" target="${target}" rel="noopener noreferrer">$1</a>`
-    );
+  private _renderLink(href: string, title: string | null, content: string): string {
+    const url = this.options.urlSanitizer.sanitize(href);
+    if (!url) return content;
+
+    const titleAttr = title ? ` title="${this._escapeHtml(title)}"` : '';
+    const target = this._escapeHtml(this.options.linkTarget);
+    if (!url.external) {
+      return `<a href="${this._escapeHtml(url.href)}"${titleAttr} target="${target}" rel="noopener noreferrer">${content}</a>`;
+    }
+    return `<a href="${this._escapeHtml(url.href)}"${titleAttr} target="${target}" rel="noopener noreferrer" class="external-link">${content}<span class="external-icon" aria-hidden="true">↗</span></a>`;
   }
 
   /**
-   * Render unordered lists.
-   * - item or * item
+   * Remove event handler attributes and disallowed URLs from raw HTML
+   * (only used when `sanitize` is disabled).
    */
-  private _renderLists(text: string): string {
-    const lines = text.split('\n');
-    const result: string[] = [];
-    let inList = false;
-
-    for (const line of lines) {
-      const listMatch = line.match(/^[\-\*]\s+(.+)$/);
-
-      if (listMatch) {
-        if (!inList) {
-          result.push('<ul>');
-          inList = true;
+  private _sanitizeHtml(html: string): string {
+    return html.replace(/<([a-zA-Z][a-zA-Z0-9-]*)(\s[^<>]*?)?(\/?)>/g, (_, tag: string, attrs: string | undefined, selfClose: string) => {
+      if (!attrs) return `<${tag}${selfClose}>`;
+
+      const cleaned = attrs.replace(
+        /\s([a-zA-Z_:][a-zA-Z0-9_.:-]*)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g,
+        (attr: string, name: string, rawValue: string | undefined) => {
+          const lower = name.toLowerCase();
+          if (lower.startsWith('on') || lower === 'style' || lower === 'srcdoc') return '';
+          if (['href', 'src', 'action', 'formaction', 'xlink:href'].includes(lower)) {
+            const value = (rawValue || '')
+              .replace(/^["']|["']$/g, '')
+              .replace(/&(amp|quot|#0*39|lt|gt);/g, (_m, entity: string) => ({ amp: '&', quot: '"', lt: '<', gt: '>' } as Record<string, string>)[entity] ?? "'");
+            const url = this.options.urlSanitizer.sanitize(value);
+            return url ? ` ${name}="${this._escapeHtml(url.href)}"` : '';
+          }
+          return attr;
         }
-        result.push(`<li>${listMatch[1]}</li>`);
-      } else {
-        if (inList) {
-          result.push('</ul>');
-          inList = false;
-        }
-        result.push(line);
-      }
-    }
-
-    if (inList) {
-      result.push('</ul>');
-    }
-
-    return result.join('\n');
+      );
+      return `<${tag}${cleaned}${selfClose}>`;
+    });
   }
 
   /**
-   * Convert line breaks to <br> tags.
+   * Escape HTML special characters.
    */
-  private _renderLineBreaks(text: string): string {
-    // Don't add <br> inside pre/code blocks or after block elements
-    return text
-      .split('\n')
-      .map((line, i, arr) => {
-        // Skip if this is part of a code block or list
-        if (line.startsWith('<pre>') || line.startsWith('<ul>') ||
-            line.startsWith('</pre>') || line.startsWith('</ul>') ||
-            line.startsWith('<li>') || line.startsWith('<h')) {
-          return line;
-        }
-        // Add <br> if next line isn't a block element
-        const nextLine = arr[i + 1];
-        if (nextLine && !nextLine.startsWith('<') && line.trim()) {
-          return line + '<br>';
-        }
-        return line;
-      })
-      .join('\n');
+  private _escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;'
+    };
+    return text.replace(/[&<>"']/g, m => map[m]);
   }
 }
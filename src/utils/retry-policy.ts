@@ -0,0 +1,86 @@
+import { ApiError } from '../services/api-client';
+import { StreamInterruptedError } from '../services/sse-handler';
+
+/**
+ * Options for the retry policy.
+ */
+export interface RetryPolicyOptions {
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+}
+
+/**
+ * Retry policy with exponential backoff for transient request failures.
+ * Retries network errors, dropped streams and 429/502/503/504 responses,
+ * honoring the server's Retry-After header (or the stream's `retry` field).
+ */
+export class RetryPolicy {
+  static readonly RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+  private options: Required<RetryPolicyOptions>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = {
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      ...options
+    };
+  }
+
+  /**
+   * Check whether a failed attempt (0-based) should be retried.
+   */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    const maxRetries = Number.isFinite(this.options.maxRetries) ? this.options.maxRetries : 0;
+    if (attempt >= maxRetries) return false;
+
+    if (error instanceof ApiError) {
+      return RetryPolicy.RETRYABLE_STATUSES.includes(error.status);
+    }
+
+    if (error instanceof StreamInterruptedError) {
+      return true;
+    }
+
+    // fetch() rejects with a TypeError on network failure
+    return error instanceof TypeError;
+  }
+
+  /**
+   * Get the delay in milliseconds before the given retry attempt (0-based).
+   */
+  getDelay(error: unknown, attempt: number): number {
+    if ((error instanceof ApiError || error instanceof StreamInterruptedError) && error.retryAfter !== null) {
+      return Math.min(error.retryAfter, this.options.maxDelay);
+    }
+
+    const exponential = this.options.baseDelay * Math.pow(2, attempt);
+    // Add up to 20% jitter so reconnecting clients don't synchronize
+    const jitter = exponential * 0.2 * Math.random();
+    return Math.min(exponential + jitter, this.options.maxDelay);
+  }
+
+  /**
+   * Wait for the given delay. Resolves early if the signal is aborted.
+   */
+  wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
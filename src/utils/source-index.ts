@@ -0,0 +1,105 @@
+import type { InlineSource, LegacyReferences, LegacyDocument } from '../types';
+
+/**
+ * Sources of one document, merged into a single Sources entry.
+ */
+export interface SourceGroup {
+  /** Citation number, stable per document (order of first appearance). */
+  number: number;
+  documentId: string;
+  documentName: string;
+  /** Cited pages, ascending and without duplicates. */
+  pages: number[];
+  /** Inline sources in this group (empty for legacy references). */
+  sources: InlineSource[];
+  /** Link from legacy document metadata. */
+  url?: string;
+}
+
+/**
+ * Groups message sources by document so each document is listed (and
+ * numbered) once, with the combined list of cited pages. Works for both
+ * inline `message_source` events and legacy references with
+ * `documentParts`.
+ */
+export class SourceIndex {
+  private _groups: SourceGroup[] = [];
+  private _byKey = new Map<string, SourceGroup>();
+  private _bySourceId = new Map<string, SourceGroup>();
+
+  /**
+   * Build an index from inline sources, in arrival order.
+   */
+  static fromSources(sources: InlineSource[]): SourceIndex {
+    const index = new SourceIndex();
+    for (const source of sources) {
+      const key = source.documentId || source.documentName || source.sourceId;
+      const group = index._group(key, source.documentId || '', source.documentName);
+      group.sources.push(source);
+      index._addPage(group, source.page);
+      if (!index._bySourceId.has(source.sourceId)) {
+        index._bySourceId.set(source.sourceId, group);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Build an index from legacy references, attaching `documentParts` pages
+   * to their documents.
+   */
+  static fromLegacyReferences(refs: LegacyReferences): SourceIndex {
+    const index = new SourceIndex();
+    const data = refs.references || refs;
+    const documents: LegacyDocument[] = data.documents || [];
+
+    for (const doc of documents) {
+      const group = index._group(doc.id || doc.name, doc.id || '', doc.name);
+      const metadata = doc.metadata || {};
+      if (!group.url) group.url = metadata.url || metadata.source_url || undefined;
+    }
+
+    for (const part of data.documentParts || []) {
+      const group = index._byKey.get(part.documentId);
+      if (group && part.type === 'page') index._addPage(group, part.number);
+    }
+
+    return index;
+  }
+
+  /**
+   * Document groups in citation order.
+   */
+  get groups(): SourceGroup[] {
+    return this._groups;
+  }
+
+  /**
+   * Find the group of a source (by `sourceId`).
+   */
+  groupFor(sourceId: string): SourceGroup | null {
+    return this._bySourceId.get(sourceId) || null;
+  }
+
+  private _group(key: string, documentId: string, documentName: string): SourceGroup {
+    let group = this._byKey.get(key);
+    if (!group) {
+      group = {
+        number: this._groups.length + 1,
+        documentId,
+        documentName: documentName || 'Document',
+        pages: [],
+        sources: []
+      };
+      this._groups.push(group);
+      this._byKey.set(key, group);
+    }
+    return group;
+  }
+
+  private _addPage(group: SourceGroup, page: number | undefined): void {
+    if (typeof page !== 'number' || !isFinite(page) || group.pages.includes(page)) return;
+    group.pages.push(page);
+    group.pages.sort((a, b) => a - b);
+  }
+}
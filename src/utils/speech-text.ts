@@ -0,0 +1,89 @@
+import { MarkdownParser } from './markdown-parser';
+import type { BlockNode, InlineNode } from './markdown-parser';
+
+const parser = new MarkdownParser();
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Turns markdown answers into plain text for reading aloud: formatting,
+ * link targets, citation markers and code blocks are left out, and each
+ * block ends with a pause.
+ */
+export class SpeechText {
+  static fromMarkdown(markdown: string): string {
+    const blocks = parser.parse(markdown.replace(/:cite\[[^\]]+\]/g, ''));
+    return joinLines(blocks.map(blockText));
+  }
+}
+
+function blockText(block: BlockNode): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return sentence(inlineText(block.children));
+    case 'blockquote':
+      return joinLines(block.children.map(blockText));
+    case 'list':
+      return joinLines(block.items.map(item => joinLines(item.children.map(blockText))));
+    case 'table':
+      return joinLines([block.header, ...block.rows].map(row =>
+        sentence(row.map(cell => inlineText(cell.children).trim()).filter(Boolean).join(', '))
+      ));
+    default:
+      // Code, HTML and thematic breaks don't read well
+      return '';
+  }
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.value;
+      case 'entity':
+        return decodeEntity(node.value);
+      case 'break':
+      case 'softbreak':
+        return ' ';
+      case 'emphasis':
+      case 'strong':
+      case 'strikethrough':
+      case 'link':
+        return inlineText(node.children);
+      case 'image':
+        return node.alt;
+      default:
+        return '';
+    }
+  }).join('');
+}
+
+/**
+ * Collapse whitespace and end the text with punctuation, so speech pauses.
+ */
+function sentence(text: string): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return /[\w)\]"']$/.test(trimmed) ? trimmed + '.' : trimmed;
+}
+
+function joinLines(lines: string[]): string {
+  return lines.filter(Boolean).join('\n');
+}
+
+function decodeEntity(entity: string): string {
+  const name = entity.slice(1, -1);
+  if (name[0] === '#') {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  }
+  return NAMED_ENTITIES[name] || '';
+}
@@ -0,0 +1,257 @@
+/**
+ * Converts markdown to HTML (e.g. `MarkdownRenderer.render` plus post-processing).
+ */
+export type MarkdownRenderFunction = (markdown: string) => string;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_MARKER = /^ {0,3}(?:[-+*]|\d{1,9}[.)])(?:[ \t]|$)/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+
+/**
+ * Renders streaming markdown into a container incrementally.
+ *
+ * Completed top-level blocks are rendered once and left untouched in the
+ * DOM (so text selection survives); only the last, still open block is
+ * re-rendered. Updates are batched to one DOM write per animation frame.
+ * While streaming, unterminated inline markup in the open block
+ * (`**bold`, `` `code``, half-written links) is closed or hidden so it
+ * doesn't flash as raw markdown.
+ */
+export class StreamingMarkdownRenderer {
+  private container: Element;
+  private renderMarkdown: MarkdownRenderFunction;
+  private onRender: (() => void) | null;
+
+  private committedSource = '';
+  private committedNodes = 0;
+  private needsReset = true;
+  private pending: string | null = null;
+  private frame: number | null = null;
+
+  constructor(container: Element, render: MarkdownRenderFunction, onRender?: () => void) {
+    this.container = container;
+    this.renderMarkdown = render;
+    this.onRender = onRender || null;
+  }
+
+  /**
+   * Offset up to which the text consists of finished top-level blocks.
+   * `from` must itself be such an offset (or 0).
+   */
+  static stableBoundary(text: string, from = 0): number {
+    return findStableBoundary(text, from);
+  }
+
+  /**
+   * The container this renderer writes into.
+   */
+  get element(): Element {
+    return this.container;
+  }
+
+  /**
+   * Schedule rendering of the full accumulated text on the next animation frame.
+   */
+  update(text: string): void {
+    this.pending = text;
+    if (this.frame === null) {
+      this.frame = this._requestFrame(() => {
+        this.frame = null;
+        this.flush();
+      });
+    }
+  }
+
+  /**
+   * Render pending text immediately.
+   */
+  flush(): void {
+    if (this.pending === null) return;
+    const text = this.pending;
+    this.pending = null;
+
+    // Start over if the container was re-rendered or the text was replaced
+    if (this.needsReset || !text.startsWith(this.committedSource)) {
+      this.container.innerHTML = '';
+      this.committedSource = '';
+      this.committedNodes = 0;
+      this.needsReset = false;
+    }
+
+    // Remove the previously rendered open block
+    while (this.container.childNodes.length > this.committedNodes) {
+      this.container.lastChild?.remove();
+    }
+
+    // Commit blocks that can no longer change
+    const boundary = findStableBoundary(text, this.committedSource.length);
+    if (boundary > this.committedSource.length) {
+      const segment = text.slice(this.committedSource.length, boundary);
+      this.container.insertAdjacentHTML('beforeend', this.renderMarkdown(segment));
+      this.committedSource = text.slice(0, boundary);
+      this.committedNodes = this.container.childNodes.length;
+    }
+
+    const tail = text.slice(this.committedSource.length);
+    if (tail.trim()) {
+      this.container.insertAdjacentHTML('beforeend', this.renderMarkdown(closeOpenMarkup(tail)));
+    }
+
+    this.onRender?.();
+  }
+
+  /**
+   * Forget the rendered state, e.g. after the container was fully re-rendered.
+   */
+  reset(): void {
+    this.cancel();
+    this.needsReset = true;
+  }
+
+  /**
+   * Cancel a scheduled update.
+   */
+  cancel(): void {
+    if (this.frame !== null) {
+      this._cancelFrame(this.frame);
+      this.frame = null;
+    }
+    this.pending = null;
+  }
+
+  private _requestFrame(callback: () => void): number {
+    if (typeof requestAnimationFrame === 'function') {
+      return requestAnimationFrame(callback);
+    }
+    return setTimeout(callback, 16) as unknown as number;
+  }
+
+  private _cancelFrame(id: number): void {
+    if (typeof cancelAnimationFrame === 'function') {
+      cancelAnimationFrame(id);
+    } else {
+      clearTimeout(id);
+    }
+  }
+}
+
+/**
+ * Find the offset up to which the text consists of finished top-level blocks.
+ * A boundary is the start of a complete line that follows a blank line
+ * (outside fenced code) and can't continue the previous block: it isn't
+ * indented and isn't a list item (which could extend a previous list).
+ */
+function findStableBoundary(text: string, from: number): number {
+  let boundary = from;
+  let fence: string | null = null;
+  let sawBlank = false;
+  let sawContent = false;
+  let pos = from;
+
+  for (;;) {
+    const end = text.indexOf('\n', pos);
+    if (end === -1) break; // the last line may still grow
+
+    const line = text.slice(pos, end);
+    if (fence) {
+      if (isFenceClose(line, fence)) fence = null;
+    } else if (/^[ \t]*$/.test(line)) {
+      sawBlank = true;
+    } else {
+      if (sawBlank && sawContent && !/^(?: {4}|\t)/.test(line) && !LIST_MARKER.test(line)) {
+        boundary = pos;
+      }
+      sawBlank = false;
+      sawContent = true;
+      fence = matchFenceOpen(line);
+    }
+
+    pos = end + 1;
+  }
+
+  return boundary;
+}
+
+/**
+ * Check whether the text ends inside an unterminated fenced code block.
+ */
+function hasOpenFence(text: string): boolean {
+  let fence: string | null = null;
+  for (const line of text.split('\n')) {
+    fence = fence ? (isFenceClose(line, fence) ? null : fence) : matchFenceOpen(line);
+  }
+  return fence !== null;
+}
+
+/**
+ * Return the fence marker if the line opens a fenced code block.
+ */
+function matchFenceOpen(line: string): string | null {
+  const match = FENCE.exec(line);
+  if (!match) return null;
+  // Backtick fences can't have backticks in the info string
+  if (match[1][0] === '`' && match[2].includes('`')) return null;
+  return match[1];
+}
+
+/**
+ * Check whether the line closes a fence opened with the given marker.
+ */
+function isFenceClose(line: string, fence: string): boolean {
+  const trimmed = line.replace(/^ {0,3}/, '').replace(/[ \t]+$/, '');
+  return trimmed.length >= fence.length && trimmed.split('').every(c => c === fence[0]);
+}
+
+/**
+ * Close unterminated inline markup in the last paragraph of a streaming
+ * block, and hide link targets that are still being written.
+ */
+function closeOpenMarkup(tail: string): string {
+  // An open fence renders as a code block on its own
+  if (hasOpenFence(tail)) return tail;
+
+  const start = tail.lastIndexOf('\n\n') + 1;
+  let block = tail.slice(start);
+
+  // "[text](http://exa" -> "text", "![alt](http://exa" -> ""
+  block = block
+    .replace(/!\[[^\]\n]*\]\([^)\n]*$/, '')
+    .replace(/\[([^\]\n]*)\]\([^)\n]*$/, '$1');
+
+  for (const marker of ['`', '**', '~~', '*']) {
+    block = balanceMarker(block, marker);
+  }
+
+  return tail.slice(0, start) + block;
+}
+
+/**
+ * Append a closing marker if the block has an odd number of them, or drop
+ * a dangling opener at the very end.
+ */
+function balanceMarker(block: string, marker: string): string {
+  // Ignore thematic breaks, list bullets and (except for backticks) code spans
+  let source = block
+    .split('\n')
+    .filter(line => !THEMATIC_BREAK.test(line))
+    .map(line => line.replace(/^[ \t]*[-+*][ \t]/, ''))
+    .join('\n');
+  if (marker !== '`') source = source.replace(/`[^`\n]*`/g, '');
+
+  let count: number;
+  if (marker === '`') {
+    count = (source.match(/`+/g) || []).filter(run => run.length === 1).length;
+  } else if (marker === '*') {
+    count = (source.replace(/\*\*/g, '').match(/\*/g) || []).length;
+  } else {
+    count = source.split(marker).length - 1;
+  }
+  if (count % 2 === 0) return block;
+
+  const trimmed = block.replace(/\s+$/, '');
+  const beforeMarker = trimmed.slice(0, -marker.length);
+  if (trimmed.endsWith(marker) && (beforeMarker === '' || /\s$/.test(beforeMarker))) {
+    return beforeMarker;
+  }
+  return trimmed + marker;
+}
@@ -0,0 +1,288 @@
+import { MarkdownRenderer } from './markdown-renderer';
+import { SourceIndex } from './source-index';
+import { UrlSanitizer } from './url-sanitizer';
+import { AttachmentPolicy } from './attachment-policy';
+import { StorageSchema } from '../services/storage-schema';
+import type { SourceGroup } from './source-index';
+import type { ChatMessage, TranscriptData, TranscriptFormat } from '../types';
+
+/**
+ * Options for exporting a transcript.
+ */
+export interface TranscriptOptions {
+  title?: string;
+  sessionId?: string | null;
+  /** Checks link URLs in the `html` format. */
+  urlSanitizer?: UrlSanitizer;
+}
+
+/**
+ * Error for transcripts that can't be imported.
+ */
+export class TranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptError';
+  }
+}
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  text: 'txt',
+  json: 'json',
+  html: 'html'
+};
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  text: 'text/plain',
+  json: 'application/json',
+  html: 'text/html'
+};
+
+/**
+ * Exports conversations as Markdown, plain text, JSON or printable HTML,
+ * and reads JSON transcripts back in.
+ * The welcome message is never exported; error messages only in JSON.
+ */
+export class Transcript {
+  static readonly FORMAT = 'omnifact-transcript';
+  static readonly VERSION = 1;
+
+  /**
+   * Export messages in the given format.
+   */
+  static export(messages: ChatMessage[], format: TranscriptFormat, options: TranscriptOptions = {}): string {
+    const title = options.title || 'Chat transcript';
+    const exported = messages.filter(m => !m.isWelcome);
+
+    switch (format) {
+      case 'json': {
+        const data: TranscriptData = {
+          format: Transcript.FORMAT,
+          version: Transcript.VERSION,
+          title,
+          sessionId: options.sessionId ?? null,
+          exportedAt: new Date().toISOString(),
+          messages: exported
+        };
+        return JSON.stringify(data, null, 2);
+      }
+      case 'html':
+        return Transcript._html(exported.filter(m => !m.isError), title, options);
+      case 'text':
+        return Transcript._text(exported.filter(m => !m.isError), title);
+      case 'markdown':
+        return Transcript._markdown(exported.filter(m => !m.isError), title);
+      default:
+        throw new TranscriptError(`Unknown transcript format: ${String(format)}`);
+    }
+  }
+
+  /**
+   * Read a JSON transcript (as exported, or a plain `ChatMessage[]`).
+   * Throws a TranscriptError if it is not a valid transcript.
+   */
+  static parse(input: string | unknown): TranscriptData {
+    let data = input;
+    if (typeof input === 'string') {
+      try {
+        data = JSON.parse(input);
+      } catch {
+        throw new TranscriptError('Transcript is not valid JSON');
+      }
+    }
+
+    if (Array.isArray(data)) {
+      data = { format: Transcript.FORMAT, version: Transcript.VERSION, title: '', sessionId: null, exportedAt: '', messages: data };
+    }
+    if (!data || typeof data !== 'object') {
+      throw new TranscriptError('Transcript is not an object');
+    }
+
+    const transcript = data as Partial<TranscriptData>;
+    if (transcript.format !== Transcript.FORMAT) {
+      throw new TranscriptError('Not an Omnifact chat transcript');
+    }
+    if (typeof transcript.version !== 'number' || transcript.version > Transcript.VERSION) {
+      throw new TranscriptError(`Unsupported transcript version: ${String(transcript.version)}`);
+    }
+
+    const problem = StorageSchema.validateMessages(transcript.messages);
+    if (problem) {
+      throw new TranscriptError(`Invalid transcript: ${problem}`);
+    }
+
+    const messages = StorageSchema.withoutAttachmentData(transcript.messages as ChatMessage[]).filter(m => !m.isWelcome);
+    if (messages.length === 0) {
+      throw new TranscriptError('Transcript has no messages');
+    }
+
+    return {
+      format: Transcript.FORMAT,
+      version: Transcript.VERSION,
+      title: typeof transcript.title === 'string' ? transcript.title : '',
+      sessionId: typeof transcript.sessionId === 'string' ? transcript.sessionId : null,
+      exportedAt: typeof transcript.exportedAt === 'string' ? transcript.exportedAt : '',
+      messages
+    };
+  }
+
+  /**
+   * File name for a transcript, e.g. `chat-with-us-2024-05-01.md`.
+   */
+  static filename(title: string, format: TranscriptFormat): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'chat';
+    const date = new Date().toISOString().slice(0, 10);
+    return `${slug}-${date}.${EXTENSIONS[format]}`;
+  }
+
+  /**
+   * MIME type of a format (for downloads).
+   */
+  static mimeType(format: TranscriptFormat): string {
+    return MIME_TYPES[format];
+  }
+
+  private static _markdown(messages: ChatMessage[], title: string): string {
+    const parts = [`# ${title}`, `_Exported ${new Date().toLocaleString()}_`];
+
+    for (const msg of messages) {
+      const { content, groups } = Transcript._withCitations(msg);
+      parts.push(`**${Transcript._author(msg)}** · ${new Date(msg.timestamp).toLocaleString()}`);
+      if (content) parts.push(content);
+      if (msg.attachments && msg.attachments.length > 0) {
+        parts.push(`Attachments: ${Transcript._attachments(msg)}`);
+      }
+      if (groups.length > 0) {
+        parts.push('Sources:\n\n' + groups.map(g => {
+          const name = g.url ? `[${g.documentName}](${g.url})` : g.documentName;
+          return `${g.number}. ${name}${Transcript._pages(g)}`;
+        }).join('\n'));
+      }
+      parts.push('---');
+    }
+
+    return parts.join('\n\n') + '\n';
+  }
+
+  private static _text(messages: ChatMessage[], title: string): string {
+    const parts = [title, `Exported ${new Date().toLocaleString()}`];
+
+    for (const msg of messages) {
+      const { content, groups } = Transcript._withCitations(msg);
+      let block = `${Transcript._author(msg)} (${new Date(msg.timestamp).toLocaleString()}):\n${content}`;
+      if (msg.attachments && msg.attachments.length > 0) {
+        block += `${content ? '\n' : ''}Attachments: ${Transcript._attachments(msg)}`;
+      }
+      if (groups.length > 0) {
+        block += '\n\nSources:\n' + groups.map(g =>
+          `[${g.number}] ${g.documentName}${Transcript._pages(g)}${g.url ? ` <${g.url}>` : ''}`
+        ).join('\n');
+      }
+      parts.push(block);
+    }
+
+    return parts.join('\n\n') + '\n';
+  }
+
+  private static _html(messages: ChatMessage[], title: string, options: TranscriptOptions): string {
+    const urlSanitizer = options.urlSanitizer || new UrlSanitizer();
+    const renderer = new MarkdownRenderer({ urlSanitizer, highlightCode: false });
+
+    const items = messages.map(msg => {
+      const index = Transcript._sourceIndex(msg);
+      const content = renderer.render(msg.content).replace(/:cite\[([^\]]+)\]/g, (_, sourceId: string) => {
+        const num = index?.groupFor(sourceId)?.number;
+        return num ? `<sup>[${num}]</sup>` : '';
+      });
+
+      const attachments = msg.attachments && msg.attachments.length > 0
+        ? `<p class="attachments">Attachments: ${escapeHtml(Transcript._attachments(msg))}</p>`
+        : '';
+
+      let sources = '';
+      if (index && index.groups.length > 0) {
+        sources = `<ol class="sources">${index.groups.map(g => {
+          const url = g.url ? urlSanitizer.sanitize(g.url)?.href : null;
+          const name = url
+            ? `<a href="${escapeHtml(url)}">${escapeHtml(g.documentName)}</a>`
+            : escapeHtml(g.documentName);
+          return `<li value="${g.number}">${name}${escapeHtml(Transcript._pages(g))}</li>`;
+        }).join('')}</ol>`;
+      }
+
+      return `
+    <section class="message ${msg.role}">
+      <p class="meta"><strong>${escapeHtml(Transcript._author(msg))}</strong> <time datetime="${new Date(msg.timestamp).toISOString()}">${escapeHtml(new Date(msg.timestamp).toLocaleString())}</time></p>
+      ${attachments}<div class="content">${content}</div>${sources}
+    </section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { max-width: 720px; margin: 32px auto; padding: 0 16px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 14px; line-height: 1.5; color: #1f2937; }
+      h1 { font-size: 20px; margin-bottom: 4px; }
+      .exported { color: #6b7280; margin-top: 0; }
+      .message { padding: 12px 0; border-top: 1px solid #e5e7eb; page-break-inside: avoid; }
+      .meta { margin: 0 0 4px; color: #6b7280; font-size: 12px; }
+      .meta strong { color: #1f2937; }
+      pre { background: #f3f4f6; padding: 8px; border-radius: 4px; white-space: pre-wrap; }
+      table { border-collapse: collapse; }
+      th, td { border: 1px solid #e5e7eb; padding: 4px 8px; }
+      .attachments { margin: 0 0 4px; color: #4b5563; font-size: 12px; }
+      .sources { margin: 8px 0 0; padding-left: 24px; font-size: 12px; color: #4b5563; }
+      @media print { body { margin: 0; } a { color: inherit; } }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="exported">Exported ${escapeHtml(new Date().toLocaleString())}</p>${items}
+  </body>
+</html>
+`;
+  }
+
+  /**
+   * Replace `:cite[sourceId]` markers with `[n]`, numbered per document.
+   */
+  private static _withCitations(msg: ChatMessage): { content: string; groups: SourceGroup[] } {
+    const index = Transcript._sourceIndex(msg);
+    const content = msg.content.replace(/:cite\[([^\]]+)\]/g, (_, sourceId: string) => {
+      const num = index?.groupFor(sourceId)?.number;
+      return num ? `[${num}]` : '';
+    });
+    return { content, groups: index ? index.groups : [] };
+  }
+
+  private static _sourceIndex(msg: ChatMessage): SourceIndex | null {
+    if (msg.sources && msg.sources.length > 0) return SourceIndex.fromSources(msg.sources);
+    if (msg.references) return SourceIndex.fromLegacyReferences(msg.references);
+    return null;
+  }
+
+  private static _author(msg: ChatMessage): string {
+    if (msg.role === 'agent') return msg.agentName || 'Agent';
+    return msg.role === 'user' ? 'You' : 'Assistant';
+  }
+
+  private static _attachments(msg: ChatMessage): string {
+    return (msg.attachments || [])
+      .map(a => `${a.name} (${AttachmentPolicy.formatSize(a.size)})`)
+      .join(', ');
+  }
+
+  private static _pages(group: SourceGroup): string {
+    if (group.pages.length === 0) return '';
+    return ` — ${group.pages.length === 1 ? 'p.' : 'pp.'} ${group.pages.join(', ')}`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+  return String(text).replace(/[&<>"']/g, m => map[m]);
+}
@@ -0,0 +1,137 @@
+/**
+ * Options for the URL sanitizer.
+ */
+export interface UrlSanitizerOptions {
+  /** Allowed URL schemes (without the trailing colon). */
+  allowedProtocols?: string[];
+  /** Allowed hosts for http(s) links; subdomains match too. Empty allows all hosts. */
+  allowedDomains?: string[];
+  /**
+   * Redirect URL that external links are rewritten through. `{url}` is
+   * replaced with the encoded target; without it the target is appended
+   * as the `url` query parameter.
+   */
+  redirectUrl?: string;
+}
+
+/**
+ * Result of sanitizing a URL.
+ */
+export interface SanitizedUrl {
+  /** URL to put into `href`/`src` (possibly rewritten through the redirect). */
+  href: string;
+  /** Whether the link points to another site than the host page. */
+  external: boolean;
+}
+
+/**
+ * Checks URLs from model output and source metadata against a protocol
+ * and domain allow-list before they are rendered as links. Rejects
+ * `javascript:`, `data:`, `vbscript:` and other unlisted schemes,
+ * including obfuscated variants (whitespace, control characters, entities).
+ */
+export class UrlSanitizer {
+  static readonly DEFAULT_PROTOCOLS = ['http', 'https', 'mailto'];
+
+  private options: Required<UrlSanitizerOptions>;
+
+  constructor(options: UrlSanitizerOptions = {}) {
+    this.options = {
+      allowedProtocols: UrlSanitizer.DEFAULT_PROTOCOLS,
+      allowedDomains: [],
+      redirectUrl: '',
+      ...options
+    };
+  }
+
+  /**
+   * Sanitize a URL. Returns null if the URL is not allowed.
+   */
+  sanitize(url: string): SanitizedUrl | null {
+    const parsed = this._parse(url);
+    if (!parsed) return null;
+
+    const protocol = parsed.protocol.slice(0, -1).toLowerCase();
+    const allowedProtocols = this.options.allowedProtocols.map(p => p.toLowerCase().replace(/:$/, ''));
+    if (!allowedProtocols.includes(protocol)) return null;
+
+    const isWeb = protocol === 'http' || protocol === 'https';
+    if (isWeb && !this._isAllowedHost(parsed.hostname)) return null;
+
+    const external = isWeb && parsed.origin !== this._baseOrigin();
+    const href = external ? this._rewrite(parsed.href) : parsed.href;
+    return { href, external };
+  }
+
+  /**
+   * Sanitize an image source. Images load without a click, so they are
+   * only allowed from the listed domains (none when no domains are
+   * listed) and are not rewritten through the redirect.
+   * Returns null if the image may not be loaded.
+   */
+  sanitizeImage(url: string): string | null {
+    if (this.options.allowedDomains.length === 0) return null;
+
+    const parsed = this._parse(url);
+    if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) return null;
+
+    const protocol = parsed.protocol.slice(0, -1);
+    const allowedProtocols = this.options.allowedProtocols.map(p => p.toLowerCase().replace(/:$/, ''));
+    if (!allowedProtocols.includes(protocol) || !this._isAllowedHost(parsed.hostname)) return null;
+    return parsed.href;
+  }
+
+  /**
+   * Check whether a URL is allowed.
+   */
+  isAllowed(url: string): boolean {
+    return this.sanitize(url) !== null;
+  }
+
+  private _parse(url: string): URL | null {
+    if (typeof url !== 'string') return null;
+
+    // Browsers drop tabs, newlines and control characters inside schemes ("java\tscript:")
+    const cleaned = url.trim().replace(/[\u0000-\u001f\u007f-\u009f]/g, '');
+    if (!cleaned) return null;
+
+    // Entity-encoded scheme separators ("javascript&colon;") in raw HTML attributes
+    if (/^[a-z0-9+.-]*&(colon|#0*58|#x0*3a);/i.test(cleaned)) return null;
+
+    try {
+      return new URL(cleaned, this._baseHref());
+    } catch {
+      return null;
+    }
+  }
+
+  private _isAllowedHost(hostname: string): boolean {
+    const domains = this.options.allowedDomains;
+    if (domains.length === 0) return true;
+
+    const host = hostname.toLowerCase();
+    return domains.some(domain => {
+      const allowed = domain.toLowerCase().replace(/^\*?\./, '');
+      return host === allowed || host.endsWith(`.${allowed}`);
+    });
+  }
+
+  private _rewrite(href: string): string {
+    const redirect = this.options.redirectUrl;
+    if (!redirect) return href;
+
+    const encoded = encodeURIComponent(href);
+    if (redirect.includes('{url}')) {
+      return redirect.replace('{url}', () => encoded);
+    }
+    return `${redirect}${redirect.includes('?') ? '&' : '?'}url=${encoded}`;
+  }
+
+  private _baseHref(): string {
+    return typeof location !== 'undefined' ? location.href : 'https://localhost/';
+  }
+
+  private _baseOrigin(): string {
+    return typeof location !== 'undefined' ? location.origin : 'https://localhost';
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStepTracker } from '../src/services/agent-step-tracker';
+
+describe('AgentStepTracker', () => {
+  it('recognizes agentic event types', () => {
+    expect(AgentStepTracker.isAgentEvent('tool_call')).toBe(true);
+    expect(AgentStepTracker.isAgentEvent('assistant_write')).toBe(false);
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('ignores the %s event type', type => {
+    const tracker = new AgentStepTracker();
+    expect(AgentStepTracker.isAgentEvent(type)).toBe(false);
+    expect(tracker.apply(type, { title: 'Bogus' })).toBeNull();
+    expect(tracker.steps).toEqual([]);
+  });
+
+  it.each(['constructor', 'toString', '__proto__'])('ignores %s as a step kind in the payload', type => {
+    const step = new AgentStepTracker().apply('agent_step', { type });
+    expect(step?.kind).toBe('step');
+    expect(step?.title).toBe('Working');
+  });
+
+  it('takes the step kind from the payload', () => {
+    const step = new AgentStepTracker().apply('agent_step', { type: 'retrieval' });
+    expect(step?.kind).toBe('retrieval');
+    expect(step?.title).toBe('Searching knowledge base');
+  });
+
+  it('updates a tool call with its result', () => {
+    const tracker = new AgentStepTracker();
+    tracker.apply('tool_call', { id: 't1', toolName: 'search', input: { q: 'x' } });
+    const step = tracker.apply('tool_result', { id: 't1', output: 'found' });
+
+    expect(tracker.steps).toHaveLength(1);
+    expect(step).toMatchObject({ id: 't1', title: 'Using search', status: 'completed', output: 'found' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownRenderer, type MarkdownRendererOptions } from '../src/utils/markdown-renderer';
+import { UrlSanitizer, type UrlSanitizerOptions } from '../src/utils/url-sanitizer';
+import fixtures from './fixtures/markdown-conformance.json';
+
+interface Fixture {
+  section: string;
+  name: string;
+  markdown: string;
+  html: string;
+  options?: Omit<MarkdownRendererOptions, 'urlSanitizer' | 'highlight'> & {
+    urlSanitizer?: UrlSanitizerOptions;
+  };
+}
+
+const cases = fixtures as Fixture[];
+
+function createRenderer(options: Fixture['options'] = {}): MarkdownRenderer {
+  const { urlSanitizer, ...rest } = options;
+  return new MarkdownRenderer({ ...rest, urlSanitizer: new UrlSanitizer(urlSanitizer) });
+}
+
+describe('MarkdownRenderer conformance', () => {
+  const sections = [...new Set(cases.map(fixture => fixture.section))];
+
+  describe.each(sections)('%s', section => {
+    it.each(cases.filter(fixture => fixture.section === section))('$name', fixture => {
+      expect(createRenderer(fixture.options).render(fixture.markdown)).toBe(fixture.html);
+    });
+  });
+});
+
+describe('MarkdownRenderer limits', () => {
+  const renderer = new MarkdownRenderer();
+  const count = (html: string, tag: string): number => html.split(`<${tag}>`).length - 1;
+
+  it('renders deeply nested list markers past the limit as text', () => {
+    const html = renderer.render('- '.repeat(1000) + 'a');
+    expect(count(html, 'ul')).toBeLessThan(100);
+    expect(html).toContain('- - a');
+  });
+
+  it('renders deeply nested block quote markers past the limit as text', () => {
+    const html = renderer.render('>'.repeat(2000) + ' a');
+    expect(count(html, 'blockquote')).toBeLessThan(100);
+    expect(html).toContain('&gt;&gt; a');
+  });
+
+  it('renders deeply nested quote lines without exhausting the stack', () => {
+    const markdown = Array.from({ length: 200 }, (_, i) => `${'>'.repeat(i + 1)} a`).join('\n');
+    expect(() => renderer.render(markdown)).not.toThrow();
+  });
+
+  it('keeps deeply nested emphasis delimiters as text', () => {
+    const html = renderer.render('*a '.repeat(2000) + 'b' + '*'.repeat(2000));
+    expect(count(html, 'em')).toBeLessThan(100);
+    expect(html).toContain('*a *a');
+  });
+
+  it.each([
+    ['link openers', '[a]('],
+    ['angle bracket destinations', '[](<a\n'],
+    ['unclosed link titles', '[](x (a']
+  ])('parses long runs of %s in linear time', (_name, run) => {
+    const markdown = run.repeat(Math.ceil(40000 / run.length));
+    const start = performance.now();
+    renderer.render(markdown);
+    // Rescanning from every opener took several seconds
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+});
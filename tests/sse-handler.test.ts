@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SSEHandler, StreamInterruptedError } from '../src/services/sse-handler';
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+const write = (content: string, id: string): string =>
+  `id: ${id}\nevent: assistant_write\ndata: ${JSON.stringify({ content, messageId: 'm1' })}\n\n`;
+
+describe('SSEHandler.processStream', () => {
+  it('completes on the done event', async () => {
+    const onComplete = vi.fn();
+    const result = await new SSEHandler().processStream(
+      streamResponse([write('Hello', '1'), write(' world', '2'), 'event: done\ndata: {}\n\n']),
+      { onComplete }
+    );
+
+    expect(result.content).toBe('Hello world');
+    expect(result.messageId).toBe('m1');
+    expect(onComplete).toHaveBeenCalledWith(result);
+  });
+
+  it('reports a body that ends without a done event as interrupted', async () => {
+    const onComplete = vi.fn();
+    const onError = vi.fn();
+    const processing = new SSEHandler().processStream(
+      streamResponse([write('Hello', '1'), 'retry: 1500\n\n', write(' wor', '2')]),
+      { onComplete, onError }
+    );
+
+    const error = await processing.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StreamInterruptedError);
+    const interrupted = error as StreamInterruptedError;
+    expect(interrupted.partial.content).toBe('Hello wor');
+    expect(interrupted.partial.lastEventId).toBe('2');
+    expect(interrupted.retryAfter).toBe(1500);
+    expect(onError).toHaveBeenCalledWith(interrupted);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('resumes the partial result on a reconnected stream', async () => {
+    const first = await new SSEHandler().processStream(streamResponse([write('Hello', '1')]), {})
+      .catch((e: StreamInterruptedError) => e.partial);
+
+    const result = await new SSEHandler().processStream(
+      streamResponse([write(' world', '2'), 'event: done\ndata: {}\n\n']),
+      {},
+      undefined,
+      first
+    );
+    expect(result.content).toBe('Hello world');
+    expect(result.lastEventId).toBe('2');
+  });
+
+  it('completes a stopped stream as interrupted', async () => {
+    const controller = new AbortController();
+    const onComplete = vi.fn();
+    const result = await new SSEHandler().processStream(
+      streamResponse([write('Hello', '1')]),
+      {
+        onChunk: () => controller.abort(),
+        onComplete
+      },
+      controller.signal
+    );
+
+    expect(result.interrupted).toBe(true);
+    expect(result.content).toBe('Hello');
+    expect(onComplete).toHaveBeenCalledWith(result);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode(`${write('Grüße 👋', '1')}event: done\ndata: {}\n\n`);
+    const split = bytes.indexOf(0xf0) + 2;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, split));
+        controller.enqueue(bytes.subarray(split));
+        controller.close();
+      }
+    });
+
+    const result = await new SSEHandler().processStream(
+      new Response(body, { headers: { 'content-type': 'text/event-stream' } }),
+      {}
+    );
+    expect(result.content).toBe('Grüße 👋');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SSEParser, type SSEEvent } from '../src/services/sse-parser';
+import fixtures from './fixtures/sse-streams.json';
+
+interface Fixture {
+  name: string;
+  input?: string;
+  chunks?: string[];
+  events: SSEEvent[];
+  lastEventId?: string;
+  retry?: number;
+}
+
+const cases = fixtures as Fixture[];
+
+function parse(chunks: string[]): { events: SSEEvent[]; parser: SSEParser } {
+  const parser = new SSEParser();
+  const events = chunks.flatMap(chunk => parser.feed(chunk));
+  return { events, parser };
+}
+
+/** Decode byte chunks the way `SSEHandler.processStream` does. */
+function parseBytes(chunks: Uint8Array[]): SSEEvent[] {
+  const parser = new SSEParser();
+  const decoder = new TextDecoder();
+  return chunks.flatMap(chunk => parser.feed(decoder.decode(chunk, { stream: true })));
+}
+
+function expectState(parser: SSEParser, fixture: Fixture): void {
+  if (fixture.lastEventId !== undefined) expect(parser.lastEventId).toBe(fixture.lastEventId);
+  if (fixture.retry !== undefined) expect(parser.retry).toBe(fixture.retry);
+}
+
+describe('SSEParser', () => {
+  describe.each(cases)('$name', fixture => {
+    const text = fixture.input ?? fixture.chunks!.join('');
+
+    it('parses the stream as given', () => {
+      const { events, parser } = parse(fixture.chunks ?? [text]);
+      expect(events).toEqual(fixture.events);
+      expectState(parser, fixture);
+    });
+
+    it('parses the stream one character at a time', () => {
+      const { events, parser } = parse(Array.from(text));
+      expect(events).toEqual(fixture.events);
+      expectState(parser, fixture);
+    });
+
+    it('parses the stream split at every byte offset', () => {
+      const bytes = new TextEncoder().encode(text);
+      for (let i = 1; i < bytes.length; i++) {
+        const events = parseBytes([bytes.subarray(0, i), bytes.subarray(i)]);
+        expect(events, `split at byte ${i}`).toEqual(fixture.events);
+      }
+    });
+  });
+
+  it('starts from the given last event id', () => {
+    const parser = new SSEParser('resume-1');
+    expect(parser.feed('data: a\n\n')).toEqual([{ type: 'message', data: 'a', lastEventId: 'resume-1' }]);
+  });
+
+  it('reset() drops buffered input but keeps the last event id', () => {
+    const parser = new SSEParser();
+    parser.feed('id: 5\ndata: a\n\ndata: partial');
+    parser.reset();
+    expect(parser.feed('data: b\n\n')).toEqual([{ type: 'message', data: 'b', lastEventId: '5' }]);
+  });
+});
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageSchema, StorageSchemaError } from '../src/services/storage-schema';
+import type { ConversationIndex, QuarantinedEntry, StoredData } from '../src/services/storage-schema';
+import { StorageService } from '../src/services/storage-service';
+import { MemoryStorageAdapter } from '../src/services/storage-adapters';
+
+const KEY = 'test-chat';
+
+function message(id: string, role: 'user' | 'assistant', timestamp: number, extra: Record<string, unknown> = {}) {
+  return { id, role, content: `${role} ${id}`, timestamp, ...extra };
+}
+
+function v1Record(extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    sessionId: 'session-1',
+    lastUpdated: Date.now(),
+    messages: [message('1', 'user', 1000), message('2', 'assistant', 2000)],
+    ...extra
+  };
+}
+
+describe('StorageSchema.migrate', () => {
+  it('upgrades an unversioned record to the current version', () => {
+    const { data, migrated } = StorageSchema.migrate(v1Record());
+    expect(migrated).toBe(true);
+    expect(data.version).toBe(StorageSchema.VERSION);
+    expect(StorageSchema.validate(data)).toBeNull();
+  });
+
+  describe('v1 to v2', () => {
+    it('takes createdAt from the first message', () => {
+      const { data } = StorageSchema.migrate(v1Record({ version: 1, lastUpdated: 9000 }));
+      expect(data.createdAt).toBe(1000);
+    });
+
+    it('falls back to lastUpdated without messages', () => {
+      const { data } = StorageSchema.migrate(v1Record({ version: 1, lastUpdated: 5000, messages: [] }));
+      expect(data.createdAt).toBe(5000);
+    });
+
+    it('falls back to the current time without messages or lastUpdated', () => {
+      const now = Date.now();
+      const { data } = StorageSchema.migrate(v1Record({ version: 1, lastUpdated: null, messages: [] }));
+      expect(data.createdAt).toBeGreaterThanOrEqual(now);
+    });
+
+    it('keeps the other fields', () => {
+      const raw = v1Record({ version: 1 });
+      const { data } = StorageSchema.migrate(raw);
+      expect(data.sessionId).toBe(raw.sessionId);
+      expect(data.lastUpdated).toBe(raw.lastUpdated);
+      expect(data.messages).toEqual(raw.messages);
+    });
+  });
+
+  describe('v2 to v3', () => {
+    it('removes inline attachment data, including from variants', () => {
+      const attachment = { id: 'a1', name: 'notes.txt', mimeType: 'text/plain', size: 5, data: 'aGVsbG8=', thumbnail: 'thumb' };
+      const raw = v1Record({
+        version: 2,
+        createdAt: 1000,
+        messages: [
+          message('1', 'user', 1000, {
+            attachments: [attachment],
+            variants: [[message('1b', 'user', 1500, { attachments: [attachment] })]]
+          })
+        ]
+      });
+
+      const { data, migrated } = StorageSchema.migrate(raw);
+      expect(migrated).toBe(true);
+      const [first] = data.messages;
+      expect(first.attachments).toEqual([{ id: 'a1', name: 'notes.txt', mimeType: 'text/plain', size: 5, thumbnail: 'thumb' }]);
+      expect(first.variants?.[0][0].attachments?.[0]).not.toHaveProperty('data');
+      // The stored payload is left untouched
+      expect((raw.messages as { attachments: { data?: string }[] }[])[0].attachments[0].data).toBe('aGVsbG8=');
+    });
+  });
+
+  it('returns a current record unchanged', () => {
+    const current = { ...v1Record(), createdAt: 1000, version: StorageSchema.VERSION };
+    const { data, migrated } = StorageSchema.migrate(current);
+    expect(migrated).toBe(false);
+    expect(data).toEqual(current);
+  });
+
+  it('rejects a record from a newer schema version', () => {
+    const raw = { ...v1Record(), createdAt: 1000, version: StorageSchema.VERSION + 1 };
+    expect(() => StorageSchema.migrate(raw)).toThrow(StorageSchemaError);
+    expect(() => StorageSchema.migrate(raw)).toThrow(/newer than supported/);
+  });
+
+  it.each([
+    ['null', null],
+    ['an array', []],
+    ['a string', 'corrupted'],
+    ['version 0', { ...v1Record(), version: 0 }],
+    ['a fractional version', { ...v1Record(), version: 1.5 }],
+    ['a missing sessionId', v1Record({ sessionId: '' })],
+    ['a message without content', v1Record({ messages: [{ id: '1', role: 'user', timestamp: 1 }] })],
+    ['a non-string agentName', v1Record({ messages: [message('1', 'assistant', 1, { agentName: 42 })] })],
+    ['a non-string serverId', v1Record({ messages: [message('1', 'assistant', 1, { serverId: 42 })] })]
+  ])('rejects %s', (_name, raw) => {
+    expect(() => StorageSchema.migrate(raw)).toThrow(StorageSchemaError);
+  });
+});
+
+describe('StorageService', () => {
+  let adapter: MemoryStorageAdapter;
+  let storage: StorageService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    adapter = new MemoryStorageAdapter();
+    storage = new StorageService(KEY, adapter);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function seed(id: string, record: unknown): Promise<void> {
+    const index: ConversationIndex = {
+      activeId: id,
+      conversations: [{ id, title: 'Stored', createdAt: 1000, updatedAt: Date.now() }],
+      version: StorageSchema.INDEX_VERSION
+    };
+    await adapter.set(`${KEY}:index`, index);
+    await adapter.set(`${KEY}:${id}`, record);
+  }
+
+  it('migrates an old record on load and writes it back', async () => {
+    await seed('session-1', v1Record());
+
+    const state = await storage.loadConversation('session-1');
+    expect(state?.sessionId).toBe('session-1');
+
+    const stored = await adapter.get(`${KEY}:session-1`) as StoredData;
+    expect(stored.version).toBe(StorageSchema.VERSION);
+    expect(stored.createdAt).toBe(1000);
+    expect(await storage.getQuarantined()).toEqual([]);
+  });
+
+  it('quarantines an invalid record and drops it from the list', async () => {
+    const payload = v1Record({ messages: 'not a list' });
+    await seed('session-1', payload);
+
+    expect(await storage.loadConversation('session-1')).toBeNull();
+
+    const [entry] = await storage.getQuarantined();
+    expect(entry.key).toBe(`${KEY}:session-1`);
+    expect(entry.reason).toMatch(/messages is not an array/);
+    expect(entry.payload).toEqual(payload);
+    expect(await adapter.get(`${KEY}:session-1`)).toBeNull();
+    expect(await storage.listConversations()).toEqual([]);
+    expect(await storage.getActiveConversationId()).toBeNull();
+  });
+
+  it('quarantines a record from a newer schema version', async () => {
+    await seed('session-1', { ...v1Record(), createdAt: 1000, version: StorageSchema.VERSION + 1 });
+
+    expect(await storage.loadConversation('session-1')).toBeNull();
+
+    const [entry] = await storage.getQuarantined();
+    expect(entry.reason).toMatch(/newer than supported/);
+  });
+
+  it('quarantines an invalid conversation list', async () => {
+    await adapter.set(`${KEY}:index`, { activeId: 1, conversations: [], version: StorageSchema.INDEX_VERSION });
+
+    expect(await storage.listConversations()).toEqual([]);
+
+    const [entry] = await storage.getQuarantined();
+    expect(entry.key).toBe(`${KEY}:index`);
+    expect(entry.reason).toMatch(/invalid activeId/);
+  });
+
+  it('starts a new conversation when the active one is quarantined', async () => {
+    await seed('session-1', 'corrupted');
+
+    const state = await storage.getState();
+    expect(state.sessionId).not.toBe('session-1');
+    expect(state.messages).toEqual([]);
+    expect(await storage.getQuarantined()).toHaveLength(1);
+  });
+
+  it('moves a single legacy conversation into the list', async () => {
+    await adapter.set(KEY, v1Record());
+
+    const [summary] = await storage.listConversations();
+    expect(summary.id).toBe('session-1');
+    expect(summary.createdAt).toBe(1000);
+    expect(await adapter.get(KEY)).toBeNull();
+    expect((await adapter.get(`${KEY}:session-1`) as StoredData).version).toBe(StorageSchema.VERSION);
+  });
+
+  it(`keeps only the last ${StorageService.MAX_QUARANTINED} quarantined payloads`, async () => {
+    for (let i = 0; i < StorageService.MAX_QUARANTINED + 2; i++) {
+      await seed(`session-${i}`, `corrupted ${i}`);
+      await storage.loadConversation(`session-${i}`);
+    }
+
+    const entries: QuarantinedEntry[] = await storage.getQuarantined();
+    expect(entries).toHaveLength(StorageService.MAX_QUARANTINED);
+    expect(entries[0].payload).toBe('corrupted 2');
+    expect(entries[entries.length - 1].payload).toBe(`corrupted ${StorageService.MAX_QUARANTINED + 1}`);
+  });
+
+  it('clears quarantined payloads', async () => {
+    await seed('session-1', 'corrupted');
+    await storage.loadConversation('session-1');
+
+    await storage.clearQuarantine();
+    expect(await storage.getQuarantined()).toEqual([]);
+  });
+});
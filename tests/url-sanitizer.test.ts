@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { UrlSanitizer } from '../src/utils/url-sanitizer';
+
+describe('UrlSanitizer redirect', () => {
+  it('puts the encoded target into the {url} placeholder', () => {
+    const sanitizer = new UrlSanitizer({ redirectUrl: 'https://r.example.com/go/{url}?from=chat' });
+    expect(sanitizer.sanitize('https://example.com/a?b=1')?.href)
+      .toBe('https://r.example.com/go/https%3A%2F%2Fexample.com%2Fa%3Fb%3D1?from=chat');
+  });
+
+  it.each(["$'", '$&', '$`', '$$'])('inserts targets containing %s literally', pattern => {
+    const sanitizer = new UrlSanitizer({ redirectUrl: 'https://r.example.com/go?to={url}&from=chat' });
+    const target = `https://example.com/?q=${pattern}`;
+    expect(sanitizer.sanitize(target)?.href)
+      .toBe(`https://r.example.com/go?to=${encodeURIComponent(new URL(target).href)}&from=chat`);
+  });
+
+  it('appends the target as url parameter without a placeholder', () => {
+    const sanitizer = new UrlSanitizer({ redirectUrl: 'https://r.example.com/go?from=chat' });
+    expect(sanitizer.sanitize('https://example.com/')?.href)
+      .toBe('https://r.example.com/go?from=chat&url=https%3A%2F%2Fexample.com%2F');
+  });
+});